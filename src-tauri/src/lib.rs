@@ -1,68 +1,76 @@
 // src-tauri/src/lib.rs
 
-use std::process::Command;
+use std::collections::{HashMap, HashSet};
+use std::io::{BufRead, BufReader, Read};
+use std::process::{Child, Command, Stdio};
+use std::sync::{Arc, Mutex};
 use std::fs;
 use base64::{Engine as _, engine::general_purpose};
-use tauri::Manager;
+use tauri::{Emitter, Manager};
 
 #[cfg(target_os = "windows")]
 use std::os::windows::process::CommandExt;
 
 // Helper function to get bundled FFmpeg path
-fn get_ffmpeg_path(app: &tauri::AppHandle) -> Result<String, String> {
-    #[cfg(debug_assertions)]
-    {
-        return Ok("ffmpeg".to_string());
+// Executable name of a bundled tool on this platform
+fn tool_file_name(name: &str) -> String {
+    if cfg!(target_os = "windows") {
+        format!("{}.exe", name)
+    } else {
+        name.to_string()
     }
-    
-    #[cfg(not(debug_assertions))]
-    {
-        if let Ok(resource_path) = app.path().resource_dir() {
-            let ffmpeg_path = resource_path.join("ffmpeg.exe");
-            if ffmpeg_path.exists() {
-                return Ok(ffmpeg_path.to_string_lossy().to_string());
-            }
+}
+
+fn find_on_path(file_name: &str) -> Option<std::path::PathBuf> {
+    let paths = std::env::var_os("PATH")?;
+    std::env::split_paths(&paths)
+        .map(|dir| dir.join(file_name))
+        .find(|candidate| candidate.is_file())
+}
+
+// Looks for ffmpeg/ffprobe bundled with the app first, then on PATH. Apps started from the
+// macOS Finder or a Linux desktop launcher don't get the shell's PATH, so the usual package
+// manager locations are checked as well.
+fn find_tool(app: &tauri::AppHandle, name: &str) -> Result<String, String> {
+    let file_name = tool_file_name(name);
+
+    if let Ok(resource_path) = app.path().resource_dir() {
+        let bundled = resource_path.join(&file_name);
+        if bundled.is_file() {
+            return Ok(bundled.to_string_lossy().to_string());
         }
-        
-        if let Ok(exe_path) = std::env::current_exe() {
-            if let Some(exe_dir) = exe_path.parent() {
-                let up_path = exe_dir.join("_up_").join("resources").join("ffmpeg.exe");
-                if up_path.exists() {
-                    return Ok(up_path.to_string_lossy().to_string());
-                }
+    }
+
+    if let Ok(exe_path) = std::env::current_exe() {
+        if let Some(exe_dir) = exe_path.parent() {
+            let up_path = exe_dir.join("_up_").join("resources").join(&file_name);
+            if up_path.is_file() {
+                return Ok(up_path.to_string_lossy().to_string());
             }
         }
-        
-        Err("FFmpeg not found in any expected location".to_string())
     }
-}
 
-fn get_ffprobe_path(app: &tauri::AppHandle) -> Result<String, String> {
-    #[cfg(debug_assertions)]
-    {
-        return Ok("ffprobe".to_string());
+    if let Some(found) = find_on_path(&file_name) {
+        return Ok(found.to_string_lossy().to_string());
     }
-    
-    #[cfg(not(debug_assertions))]
-    {
-        if let Ok(resource_path) = app.path().resource_dir() {
-            let ffprobe_path = resource_path.join("ffprobe.exe");
-            if ffprobe_path.exists() {
-                return Ok(ffprobe_path.to_string_lossy().to_string());
-            }
-        }
-        
-        if let Ok(exe_path) = std::env::current_exe() {
-            if let Some(exe_dir) = exe_path.parent() {
-                let up_path = exe_dir.join("_up_").join("resources").join("ffprobe.exe");
-                if up_path.exists() {
-                    return Ok(up_path.to_string_lossy().to_string());
-                }
-            }
+
+    #[cfg(not(target_os = "windows"))]
+    for dir in ["/opt/homebrew/bin", "/usr/local/bin", "/usr/bin", "/snap/bin"] {
+        let candidate = std::path::Path::new(dir).join(&file_name);
+        if candidate.is_file() {
+            return Ok(candidate.to_string_lossy().to_string());
         }
-        
-        Err("FFprobe not found in any expected location".to_string())
     }
+
+    Err(format!("{} not found. Install it or make sure it is on your PATH.", name))
+}
+
+fn get_ffmpeg_path(app: &tauri::AppHandle) -> Result<String, String> {
+    find_tool(app, "ffmpeg")
+}
+
+fn get_ffprobe_path(app: &tauri::AppHandle) -> Result<String, String> {
+    find_tool(app, "ffprobe")
 }
 
 #[tauri::command]
@@ -95,65 +103,291 @@ fn get_video_duration(app: tauri::AppHandle, path: String) -> Result<f64, String
     Ok(duration)
 }
 
+// Frame rate of the first video stream as an exact rational such as "30000/1001". The
+// average rate is preferred, since phones record variable frame rate video whose nominal
+// rate can be far off; r_frame_rate is the fallback when the average is unknown.
 #[tauri::command]
-fn generate_thumbnail(app: tauri::AppHandle, video_path: String) -> Result<String, String> {
-    let ffmpeg_path = get_ffmpeg_path(&app)?;
-    
-    let temp_dir = std::env::temp_dir();
-    let temp_file = temp_dir.join(format!("thumb_{}.jpg", std::time::SystemTime::now()
-        .duration_since(std::time::UNIX_EPOCH)
-        .unwrap()
-        .as_secs()));
-    
-    let temp_path = temp_file.to_str().ok_or("Invalid temp path")?;
+fn get_video_frame_rate(app: tauri::AppHandle, path: String) -> Result<String, String> {
+    let ffprobe_path = get_ffprobe_path(&app)?;
 
-    let mut cmd = Command::new(ffmpeg_path);
+    let mut cmd = Command::new(ffprobe_path);
     cmd.args([
-        "-i", &video_path,
-        "-ss", "00:00:01.000",
-        "-vframes", "1",
-        "-vf", "scale=160:90",
-        "-y",
-        temp_path
+        "-v", "error",
+        "-select_streams", "v:0",
+        "-show_entries", "stream=avg_frame_rate,r_frame_rate",
+        "-of", "default=noprint_wrappers=1",
+        &path
     ]);
-    
+
     #[cfg(target_os = "windows")]
     cmd.creation_flags(0x08000000);
-    
+
     let output = cmd.output()
-        .map_err(|e| format!("Failed to execute ffmpeg: {}", e))?;
+        .map_err(|e| format!("Failed to execute ffprobe: {}", e))?;
 
     if !output.status.success() {
-        return Err(format!("FFmpeg error: {}", String::from_utf8_lossy(&output.stderr)));
+        return Err(format!("ffprobe failed: {}", String::from_utf8_lossy(&output.stderr)));
     }
 
-    let image_data = fs::read(temp_path)
-        .map_err(|e| format!("Failed to read thumbnail: {}", e))?;
-    
-    let base64_image = general_purpose::STANDARD.encode(&image_data);
-    
-    let _ = fs::remove_file(temp_path);
+    let text = String::from_utf8_lossy(&output.stdout).to_string();
+    let mut rates = HashMap::new();
+    for line in text.lines() {
+        if let Some((key, value)) = line.trim().split_once('=') {
+            rates.insert(key.to_string(), value.to_string());
+        }
+    }
+
+    // ffprobe reports "0/0" for rates it doesn't know
+    let is_known = |rate: &&String| {
+        rate.split_once('/')
+            .and_then(|(num, den)| Some((num.parse::<u64>().ok()?, den.parse::<u64>().ok()?)))
+            .map_or(false, |(num, den)| num > 0 && den > 0)
+    };
+
+    rates.get("avg_frame_rate").filter(is_known)
+        .or_else(|| rates.get("r_frame_rate").filter(is_known))
+        .cloned()
+        .ok_or_else(|| "Failed to parse frame rate".to_string())
+}
+
+// How a file's pixels have to be turned to appear upright: mirrored left to right first when
+// `flip` is set, then rotated clockwise by `rotation` degrees
+#[derive(Clone, Copy, Default, serde::Serialize)]
+struct MediaOrientation {
+    rotation: u32,
+    flip: bool,
+}
+
+// EXIF orientation of a JPEG, read from the APP1 segment at the start of the file.
+// None when the file has no EXIF orientation.
+fn read_exif_orientation(path: &str) -> Option<u16> {
+    let mut head = Vec::new();
+    fs::File::open(path).ok()?.take(256 * 1024).read_to_end(&mut head).ok()?;
+    if !head.starts_with(&[0xFF, 0xD8]) {
+        return None;
+    }
+
+    let mut pos = 2;
+    while pos + 4 <= head.len() && head[pos] == 0xFF {
+        let marker = head[pos + 1];
+        // Image data starts at SOS; EXIF always comes before it
+        if marker == 0xDA || marker == 0xD9 {
+            return None;
+        }
+        let length = u16::from_be_bytes([head[pos + 2], head[pos + 3]]) as usize;
+        let end = (pos + 2 + length).min(head.len());
+        let segment = &head[(pos + 4).min(end)..end];
+        if marker == 0xE1 && segment.starts_with(b"Exif\0\0") {
+            return read_tiff_orientation(&segment[6..]);
+        }
+        pos += 2 + length;
+    }
+    None
+}
+
+// Orientation tag (0x0112) of the first IFD of a TIFF structure
+fn read_tiff_orientation(tiff: &[u8]) -> Option<u16> {
+    let little_endian = match tiff.get(0..2)? {
+        b"II" => true,
+        b"MM" => false,
+        _ => return None,
+    };
+    let read_u16 = |offset: usize| -> Option<u16> {
+        let bytes = [*tiff.get(offset)?, *tiff.get(offset + 1)?];
+        Some(if little_endian { u16::from_le_bytes(bytes) } else { u16::from_be_bytes(bytes) })
+    };
+    let read_u32 = |offset: usize| -> Option<u32> {
+        let bytes = [*tiff.get(offset)?, *tiff.get(offset + 1)?, *tiff.get(offset + 2)?, *tiff.get(offset + 3)?];
+        Some(if little_endian { u32::from_le_bytes(bytes) } else { u32::from_be_bytes(bytes) })
+    };
+
+    let ifd = read_u32(4)? as usize;
+    let entries = read_u16(ifd)? as usize;
+    for i in 0..entries {
+        let entry = ifd + 2 + i * 12;
+        if read_u16(entry)? == 0x0112 {
+            return read_u16(entry + 8);
+        }
+    }
+    None
+}
+
+// Orientation from EXIF values 1-8, as defined by the TIFF/EXIF specification
+fn exif_to_orientation(value: u16) -> MediaOrientation {
+    let (rotation, flip) = match value {
+        2 => (0, true),
+        3 => (180, false),
+        4 => (180, true),
+        5 => (270, true),
+        6 => (90, false),
+        7 => (90, true),
+        8 => (270, false),
+        _ => (0, false),
+    };
+    MediaOrientation { rotation, flip }
+}
+
+// Rotation of a video's first stream from its display matrix (reported counterclockwise by
+// ffprobe) or, for files written by older tools, its clockwise "rotate" tag
+fn read_video_rotation(app: &tauri::AppHandle, path: &str) -> Result<MediaOrientation, String> {
+    let ffprobe_path = get_ffprobe_path(app)?;
+
+    let mut cmd = Command::new(ffprobe_path);
+    cmd.args([
+        "-v", "error",
+        "-select_streams", "v:0",
+        "-show_entries", "stream_tags=rotate:stream_side_data=rotation",
+        "-of", "json",
+        path
+    ]);
+
+    #[cfg(target_os = "windows")]
+    cmd.creation_flags(0x08000000);
+
+    let output = cmd.output()
+        .map_err(|e| format!("Failed to execute ffprobe: {}", e))?;
+
+    if !output.status.success() {
+        return Err(format!("ffprobe failed: {}", String::from_utf8_lossy(&output.stderr)));
+    }
+
+    let json: serde_json::Value = serde_json::from_slice(&output.stdout)
+        .map_err(|e| format!("Failed to parse ffprobe output: {}", e))?;
+    let stream = &json["streams"][0];
+
+    let side_data_rotation = stream["side_data_list"].as_array()
+        .and_then(|list| list.iter().find_map(|entry| entry["rotation"].as_f64()))
+        .map(|degrees| -degrees);
+    let tag_rotation = stream["tags"]["rotate"].as_str()
+        .and_then(|value| value.trim().parse::<f64>().ok());
+
+    let clockwise = side_data_rotation.or(tag_rotation).unwrap_or(0.0);
+    let rotation = ((clockwise / 90.0).round() as i64).rem_euclid(4) as u32 * 90;
+    Ok(MediaOrientation { rotation, flip: false })
+}
 
-    Ok(format!("data:image/jpeg;base64,{}", base64_image))
+fn detect_orientation(app: &tauri::AppHandle, path: &str, is_video: bool) -> Result<MediaOrientation, String> {
+    if is_video {
+        read_video_rotation(app, path)
+    } else {
+        Ok(read_exif_orientation(path).map(exif_to_orientation).unwrap_or_default())
+    }
 }
 
+// ffmpeg filters that turn a frame upright, e.g. "hflip,transpose=clock"
+fn orientation_filter(orientation: MediaOrientation) -> Option<String> {
+    let filters: &[&str] = match (orientation.flip, orientation.rotation) {
+        (false, 90) => &["transpose=clock"],
+        (false, 180) => &["hflip", "vflip"],
+        (false, 270) => &["transpose=cclock"],
+        (true, 90) => &["hflip", "transpose=clock"],
+        (true, 180) => &["vflip"],
+        (true, 270) => &["hflip", "transpose=cclock"],
+        (true, _) => &["hflip"],
+        _ => &[],
+    };
+    if filters.is_empty() { None } else { Some(filters.join(",")) }
+}
+
+// Video rotation metadata or photo EXIF orientation of a media file
 #[tauri::command]
-fn read_image_as_base64(image_path: String) -> Result<String, String> {
-    let image_data = fs::read(&image_path)
-        .map_err(|e| format!("Failed to read image: {}", e))?;
-    
-    let base64_image = general_purpose::STANDARD.encode(&image_data);
-    
-    let ext = image_path.split('.').last().unwrap_or("jpg").to_lowercase();
-    let mime_type = match ext.as_str() {
-        "png" => "image/png",
-        "gif" => "image/gif",
-        "bmp" => "image/bmp",
-        "webp" => "image/webp",
-        _ => "image/jpeg"
+fn get_media_orientation(app: tauri::AppHandle, path: String, is_video: bool) -> Result<MediaOrientation, String> {
+    detect_orientation(&app, &path, is_video)
+}
+
+// Longest edge of cached thumbnails, in pixels
+const THUMBNAIL_SIZE: u32 = 320;
+
+// Cache location for a media file's thumbnail. The key includes the file's size and
+// modification time, so replaced or re-exported files get a fresh thumbnail.
+fn thumbnail_cache_path(app: &tauri::AppHandle, media_path: &str) -> Result<std::path::PathBuf, String> {
+    use std::hash::{Hash, Hasher};
+
+    let metadata = fs::metadata(media_path)
+        .map_err(|e| format!("Failed to read {}: {}", media_path, e))?;
+    let modified = metadata.modified()
+        .ok()
+        .and_then(|time| time.duration_since(std::time::UNIX_EPOCH).ok())
+        .map(|duration| duration.as_millis())
+        .unwrap_or(0);
+
+    let mut hasher = std::collections::hash_map::DefaultHasher::new();
+    media_path.hash(&mut hasher);
+    metadata.len().hash(&mut hasher);
+    modified.hash(&mut hasher);
+    THUMBNAIL_SIZE.hash(&mut hasher);
+    // Thumbnails made before orientation was applied explicitly are regenerated
+    "upright".hash(&mut hasher);
+
+    let cache_dir = app.path().app_cache_dir()
+        .map_err(|e| format!("Failed to get cache dir: {}", e))?
+        .join("thumbnails");
+    fs::create_dir_all(&cache_dir)
+        .map_err(|e| format!("Failed to create thumbnail cache: {}", e))?;
+
+    Ok(cache_dir.join(format!("{:016x}.jpg", hasher.finish())))
+}
+
+// Returns the path of a downscaled JPEG thumbnail for a video or image, generating it on first use
+#[tauri::command]
+async fn get_thumbnail(app: tauri::AppHandle, media_path: String, is_video: bool) -> Result<String, String> {
+    let thumbnail_path = thumbnail_cache_path(&app, &media_path)?;
+    let output_path = thumbnail_path.to_str().ok_or("Invalid thumbnail path")?.to_string();
+
+    if thumbnail_path.exists() {
+        return Ok(output_path);
+    }
+
+    let ffmpeg_path = get_ffmpeg_path(&app)?;
+    // Orientation is applied by the filter rather than left to ffmpeg, the same way renders
+    // do it, since ffmpeg versions differ in whether they honour EXIF orientation
+    let orientation = detect_orientation(&app, &media_path, is_video).unwrap_or_default();
+    let scale = format!("scale={0}:{0}:force_original_aspect_ratio=decrease", THUMBNAIL_SIZE);
+    let filter = match orientation_filter(orientation) {
+        Some(turn) => format!("{},{}", turn, scale),
+        None => scale,
     };
 
-    Ok(format!("data:{};base64,{}", mime_type, base64_image))
+    // Videos are grabbed one second in, falling back to the first frame for very short clips
+    let seek_positions: Vec<Option<&str>> = if is_video {
+        vec![Some("1"), None]
+    } else {
+        vec![None]
+    };
+
+    let mut last_error = String::new();
+
+    for seek in seek_positions {
+        let mut cmd = Command::new(&ffmpeg_path);
+        if let Some(position) = seek {
+            cmd.args(["-ss", position]);
+        }
+        cmd.args([
+            "-noautorotate",
+            "-i", &media_path,
+            "-vframes", "1",
+            "-vf", &filter,
+            "-q:v", "4",
+            "-y",
+            &output_path
+        ]);
+
+        #[cfg(target_os = "windows")]
+        cmd.creation_flags(0x08000000);
+
+        let output = cmd.output()
+            .map_err(|e| format!("Failed to execute ffmpeg: {}", e))?;
+
+        let has_output = fs::metadata(&thumbnail_path).map(|m| m.len() > 0).unwrap_or(false);
+        if output.status.success() && has_output {
+            return Ok(output_path);
+        }
+
+        let _ = fs::remove_file(&thumbnail_path);
+        last_error = String::from_utf8_lossy(&output.stderr).to_string();
+    }
+
+    Err(format!("FFmpeg error: {}", last_error))
 }
 
 #[tauri::command]
@@ -244,26 +478,398 @@ fn exclude_file(file_path: String) -> Result<String, String> {
 }
 
 #[tauri::command]
-fn run_ffmpeg(app: tauri::AppHandle, args: Vec<String>) -> Result<String, String> {
+fn find_missing_files(paths: Vec<String>) -> Vec<String> {
+    paths.into_iter()
+        .filter(|path| !std::path::Path::new(path).is_file())
+        .collect()
+}
+
+// Folders deeper than this below the search root aren't searched
+const MAX_SEARCH_DEPTH: usize = 32;
+
+// Recursively search `root` for files with the given names (case-insensitive).
+// Returns a map of requested filename -> every matching full path, as cameras reuse names
+// like GX010001.MP4 and picking the right one needs the rest of the path.
+// Symlinked folders aren't followed, so links back to a parent can't loop forever.
+// Async with the scan on the blocking pool, as a large or network folder can take a while.
+#[tauri::command]
+async fn find_files_by_name(root: String, filenames: Vec<String>) -> Result<HashMap<String, Vec<String>>, String> {
+    tauri::async_runtime::spawn_blocking(move || search_files_by_name(&root, &filenames))
+        .await
+        .map_err(|e| format!("Search task failed: {}", e))?
+}
+
+fn search_files_by_name(root: &str, filenames: &[String]) -> Result<HashMap<String, Vec<String>>, String> {
+    let root_path = std::path::Path::new(root);
+    if !root_path.is_dir() {
+        return Err(format!("Not a folder: {}", root));
+    }
+
+    let wanted: HashMap<String, String> = filenames.iter()
+        .map(|name| (name.to_lowercase(), name.clone()))
+        .collect();
+    let mut found: HashMap<String, Vec<String>> = HashMap::new();
+    let mut pending_dirs = vec![(root_path.to_path_buf(), 0)];
+
+    while let Some((dir, depth)) = pending_dirs.pop() {
+        let entries = match fs::read_dir(&dir) {
+            Ok(entries) => entries,
+            Err(_) => continue, // Skip folders we can't read
+        };
+
+        for entry in entries.flatten() {
+            let path = entry.path();
+            let Ok(file_type) = entry.file_type() else { continue };
+            if file_type.is_dir() {
+                if depth < MAX_SEARCH_DEPTH {
+                    pending_dirs.push((path, depth + 1));
+                }
+            } else if file_type.is_symlink() && path.is_dir() {
+                continue;
+            } else if let Some(name) = path.file_name().and_then(|n| n.to_str()) {
+                if let Some(original) = wanted.get(&name.to_lowercase()) {
+                    found.entry(original.clone()).or_default().push(path.to_string_lossy().to_string());
+                }
+            }
+        }
+    }
+
+    Ok(found)
+}
+
+// Write `source_dir` (including the folder itself) into a zip archive at `zip_path`.
+// Async with the work on the blocking pool, so zipping gigabytes of media doesn't freeze the window.
+#[tauri::command]
+async fn zip_directory(source_dir: String, zip_path: String) -> Result<(), String> {
+    tauri::async_runtime::spawn_blocking(move || write_zip(&source_dir, &zip_path))
+        .await
+        .map_err(|e| format!("Zip task failed: {}", e))?
+}
+
+fn write_zip(source_dir: &str, zip_path: &str) -> Result<(), String> {
+    use zip::write::SimpleFileOptions;
+
+    let source = std::path::Path::new(source_dir);
+    let base = source.parent().unwrap_or(source);
+
+    let file = fs::File::create(zip_path)
+        .map_err(|e| format!("Failed to create archive: {}", e))?;
+    let mut zip = zip::ZipWriter::new(file);
+
+    // Media is already compressed, so it is stored as-is; only small text files are deflated
+    let stored = SimpleFileOptions::default()
+        .compression_method(zip::CompressionMethod::Stored)
+        .large_file(true);
+    let deflated = SimpleFileOptions::default()
+        .compression_method(zip::CompressionMethod::Deflated);
+
+    let mut pending_dirs = vec![source.to_path_buf()];
+
+    while let Some(dir) = pending_dirs.pop() {
+        let entries = fs::read_dir(&dir)
+            .map_err(|e| format!("Failed to read {}: {}", dir.display(), e))?;
+
+        for entry in entries {
+            let path = entry.map_err(|e| format!("Failed to read entry: {}", e))?.path();
+            let name = path.strip_prefix(base)
+                .map_err(|e| format!("Invalid path {}: {}", path.display(), e))?
+                .to_string_lossy()
+                .replace('\\', "/");
+
+            if path.is_dir() {
+                zip.add_directory(name, stored)
+                    .map_err(|e| format!("Failed to add folder: {}", e))?;
+                pending_dirs.push(path);
+            } else {
+                let options = if name.ends_with(".cjproj") { deflated } else { stored };
+                zip.start_file(name, options)
+                    .map_err(|e| format!("Failed to add file: {}", e))?;
+                let mut input = fs::File::open(&path)
+                    .map_err(|e| format!("Failed to open {}: {}", path.display(), e))?;
+                std::io::copy(&mut input, &mut zip)
+                    .map_err(|e| format!("Failed to write {}: {}", path.display(), e))?;
+            }
+        }
+    }
+
+    zip.finish().map_err(|e| format!("Failed to finish archive: {}", e))?;
+    Ok(())
+}
+
+// Async so the command doesn't run on the main thread; the encode itself goes to the
+// blocking pool, which lets several renders run side by side
+#[tauri::command]
+async fn run_ffmpeg(app: tauri::AppHandle, args: Vec<String>) -> Result<String, String> {
     let ffmpeg_path = get_ffmpeg_path(&app)?;
-    
-    let mut cmd = Command::new(ffmpeg_path);
-    cmd.args(&args);
-    
+
+    tauri::async_runtime::spawn_blocking(move || -> Result<String, String> {
+        let mut cmd = Command::new(ffmpeg_path);
+        cmd.args(&args);
+
+        #[cfg(target_os = "windows")]
+        cmd.creation_flags(0x08000000);
+
+        let output = cmd.output()
+            .map_err(|e| format!("Failed to execute FFmpeg: {}", e))?;
+
+        let stdout = String::from_utf8_lossy(&output.stdout).to_string();
+        let stderr = String::from_utf8_lossy(&output.stderr).to_string();
+
+        if output.status.success() {
+            Ok(format!("Success!\nStdout: {}\nStderr: {}", stdout, stderr))
+        } else {
+            Err(format!("FFmpeg failed with status: {}\nStderr: {}", output.status, stderr))
+        }
+    })
+    .await
+    .map_err(|e| format!("FFmpeg task failed: {}", e))?
+}
+
+// Error returned by ffmpeg commands whose render job was cancelled
+const RENDER_CANCELLED: &str = "Render cancelled";
+
+// ffmpeg processes grouped by render job (a combine or an export), so a whole job can be
+// cancelled at once even while several of its encodes run in parallel
+#[derive(Default)]
+struct RenderJobs {
+    cancelled: Mutex<HashSet<String>>,
+    processes: Mutex<HashMap<String, Vec<Arc<Mutex<Child>>>>>,
+}
+
+impl RenderJobs {
+    fn is_cancelled(&self, job_id: &str) -> bool {
+        self.cancelled.lock().unwrap().contains(job_id)
+    }
+}
+
+#[derive(Clone, serde::Serialize)]
+#[serde(rename_all = "camelCase")]
+struct FfmpegProgress {
+    job_id: String,
+    // Seconds of output written so far
+    out_time: f64,
+    // Encoding speed relative to real time, once ffmpeg reports one
+    speed: Option<f64>,
+    done: bool,
+}
+
+// Like run_ffmpeg, but has ffmpeg write machine-readable progress to stdout and forwards
+// each update to the frontend as an "ffmpeg-progress" event tagged with job_id.
+// Processes started for a render job are killed when that job is cancelled.
+#[tauri::command]
+async fn run_ffmpeg_streaming(
+    app: tauri::AppHandle,
+    job_id: String,
+    render_job_id: Option<String>,
+    args: Vec<String>
+) -> Result<String, String> {
+    let ffmpeg_path = get_ffmpeg_path(&app)?;
+
+    tauri::async_runtime::spawn_blocking(move || -> Result<String, String> {
+        let jobs = app.state::<RenderJobs>();
+        if let Some(render_job_id) = &render_job_id {
+            if jobs.is_cancelled(render_job_id) {
+                return Err(RENDER_CANCELLED.to_string());
+            }
+        }
+
+        let mut cmd = Command::new(ffmpeg_path);
+        cmd.args(["-progress", "pipe:1", "-nostats"]);
+        cmd.args(&args);
+        cmd.stdout(Stdio::piped());
+        cmd.stderr(Stdio::piped());
+
+        #[cfg(target_os = "windows")]
+        cmd.creation_flags(0x08000000);
+
+        let mut child = cmd.spawn()
+            .map_err(|e| format!("Failed to execute FFmpeg: {}", e))?;
+
+        // stderr is drained on its own thread so ffmpeg never blocks on a full pipe
+        let mut stderr_pipe = child.stderr.take().ok_or("Failed to capture FFmpeg output")?;
+        let stderr_reader = std::thread::spawn(move || {
+            let mut stderr = String::new();
+            let _ = stderr_pipe.read_to_string(&mut stderr);
+            stderr
+        });
+
+        let stdout = child.stdout.take().ok_or("Failed to capture FFmpeg progress")?;
+
+        // The pipes are read without holding the lock, so a cancel can kill the process meanwhile
+        let child = Arc::new(Mutex::new(child));
+        if let Some(render_job_id) = &render_job_id {
+            jobs.processes.lock().unwrap()
+                .entry(render_job_id.clone())
+                .or_default()
+                .push(Arc::clone(&child));
+            // Cancelled between the check above and registering the process
+            if jobs.is_cancelled(render_job_id) {
+                let _ = child.lock().unwrap().kill();
+            }
+        }
+
+        let mut out_time = 0.0;
+        let mut speed = None;
+
+        // Progress arrives as key=value lines; each block ends with progress=continue|end
+        for line in BufReader::new(stdout).lines().map_while(Result::ok) {
+            let Some((key, value)) = line.split_once('=') else { continue };
+            let value = value.trim();
+            match key {
+                // out_time_ms is in microseconds too, despite its name
+                "out_time_us" | "out_time_ms" => {
+                    if let Ok(microseconds) = value.parse::<f64>() {
+                        out_time = (microseconds / 1_000_000.0).max(0.0);
+                    }
+                }
+                "speed" => speed = value.trim_end_matches('x').parse::<f64>().ok(),
+                "progress" => {
+                    let _ = app.emit("ffmpeg-progress", FfmpegProgress {
+                        job_id: job_id.clone(),
+                        out_time,
+                        speed,
+                        done: value == "end",
+                    });
+                }
+                _ => {}
+            }
+        }
+
+        // Polled rather than waited on so cancel_render_job can still take the lock to kill it
+        let status = loop {
+            let exited = child.lock().unwrap().try_wait()
+                .map_err(|e| format!("Failed to wait for FFmpeg: {}", e))?;
+            if let Some(status) = exited {
+                break status;
+            }
+            std::thread::sleep(std::time::Duration::from_millis(50));
+        };
+        let stderr = stderr_reader.join().unwrap_or_default();
+
+        if let Some(render_job_id) = &render_job_id {
+            if let Some(processes) = jobs.processes.lock().unwrap().get_mut(render_job_id) {
+                processes.retain(|process| !Arc::ptr_eq(process, &child));
+            }
+            if jobs.is_cancelled(render_job_id) {
+                return Err(RENDER_CANCELLED.to_string());
+            }
+        }
+
+        if status.success() {
+            Ok(format!("Success!\nStderr: {}", stderr))
+        } else {
+            Err(format!("FFmpeg failed with status: {}\nStderr: {}", status, stderr))
+        }
+    })
+    .await
+    .map_err(|e| format!("FFmpeg task failed: {}", e))?
+}
+
+// Kills every running ffmpeg process of a render job and refuses to start new ones
+#[tauri::command]
+fn cancel_render_job(jobs: tauri::State<'_, RenderJobs>, job_id: String) {
+    jobs.cancelled.lock().unwrap().insert(job_id.clone());
+
+    let processes = jobs.processes.lock().unwrap()
+        .get(&job_id)
+        .cloned()
+        .unwrap_or_default();
+    for process in processes {
+        let _ = process.lock().unwrap().kill();
+    }
+}
+
+// Forgets a finished (or cancelled) render job
+#[tauri::command]
+fn finish_render_job(jobs: tauri::State<'_, RenderJobs>, job_id: String) {
+    jobs.cancelled.lock().unwrap().remove(&job_id);
+    jobs.processes.lock().unwrap().remove(&job_id);
+}
+
+// Raw ffprobe JSON describing every stream of a file: codecs, dimensions, pixel format,
+// frame rate, time base and audio layout
+#[tauri::command]
+fn get_stream_info(app: tauri::AppHandle, path: String) -> Result<String, String> {
+    let ffprobe_path = get_ffprobe_path(&app)?;
+
+    let mut cmd = Command::new(ffprobe_path);
+    cmd.args(&[
+        "-v", "error",
+        "-show_entries",
+        "stream=codec_type,codec_name,profile,width,height,pix_fmt,r_frame_rate,time_base,sample_rate,channels,channel_layout",
+        "-of", "json",
+        &path
+    ]);
+
     #[cfg(target_os = "windows")]
     cmd.creation_flags(0x08000000);
-    
+
     let output = cmd.output()
-        .map_err(|e| format!("Failed to execute FFmpeg: {}", e))?;
+        .map_err(|e| format!("Failed to execute ffprobe: {}", e))?;
 
-    let stdout = String::from_utf8_lossy(&output.stdout).to_string();
-    let stderr = String::from_utf8_lossy(&output.stderr).to_string();
+    if !output.status.success() {
+        return Err(format!("ffprobe failed: {}", String::from_utf8_lossy(&output.stderr)));
+    }
+
+    Ok(String::from_utf8_lossy(&output.stdout).to_string())
+}
+
+// Font file for burned-in captions. fontconfig picks the closest match on Linux (and on macOS
+// when installed); otherwise well-known system font locations are tried, falling back to a
+// plain sans-serif so captions still render when the chosen family isn't installed.
+#[tauri::command]
+fn resolve_font_file(family: String, bold: bool, italic: bool) -> Result<String, String> {
+    let mut pattern = family.clone();
+    if bold {
+        pattern.push_str(":bold");
+    }
+    if italic {
+        pattern.push_str(":italic");
+    }
+
+    #[cfg(not(target_os = "windows"))]
+    if let Ok(output) = Command::new("fc-match").args(["-f", "%{file}", &pattern]).output() {
+        let file = String::from_utf8_lossy(&output.stdout).trim().to_string();
+        if output.status.success() && std::path::Path::new(&file).is_file() {
+            return Ok(file);
+        }
+    }
 
-    if output.status.success() {
-        Ok(format!("Success!\nStdout: {}\nStderr: {}", stdout, stderr))
+    let style = match (bold, italic) {
+        (true, true) => "bi",
+        (true, false) => "bd",
+        (false, true) => "i",
+        (false, false) => "",
+    };
+    let base = family.to_lowercase().replace(' ', "");
+
+    let mut candidates: Vec<std::path::PathBuf> = Vec::new();
+    if cfg!(target_os = "windows") {
+        let windir = std::env::var("WINDIR").unwrap_or_else(|_| "C:\\Windows".to_string());
+        let fonts = std::path::Path::new(&windir).join("Fonts");
+        candidates.push(fonts.join(format!("{}{}.ttf", base, style)));
+        candidates.push(fonts.join(format!("{}.ttf", base)));
+        candidates.push(fonts.join("arial.ttf"));
+    } else if cfg!(target_os = "macos") {
+        for dir in ["/System/Library/Fonts/Supplemental", "/Library/Fonts", "/System/Library/Fonts"] {
+            let dir = std::path::Path::new(dir);
+            candidates.push(dir.join(format!("{}.ttf", family)));
+            candidates.push(dir.join(format!("{}.ttc", family)));
+        }
+        candidates.push("/System/Library/Fonts/Supplemental/Arial.ttf".into());
+        candidates.push("/System/Library/Fonts/Helvetica.ttc".into());
     } else {
-        Err(format!("FFmpeg failed with status: {}\nStderr: {}", output.status, stderr))
+        candidates.push("/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf".into());
+        candidates.push("/usr/share/fonts/dejavu-sans-fonts/DejaVuSans.ttf".into());
+        candidates.push("/usr/share/fonts/TTF/DejaVuSans.ttf".into());
+        candidates.push("/usr/share/fonts/truetype/liberation/LiberationSans-Regular.ttf".into());
+        candidates.push("/usr/share/fonts/liberation-sans/LiberationSans-Regular.ttf".into());
     }
+
+    candidates.into_iter()
+        .find(|candidate| candidate.is_file())
+        .map(|candidate| candidate.to_string_lossy().to_string())
+        .ok_or_else(|| format!("No font file found for \"{}\"", family))
 }
 
 #[tauri::command]
@@ -306,15 +912,25 @@ pub fn run() {
         .plugin(tauri_plugin_fs::init())
         .plugin(tauri_plugin_store::Builder::default().build())
         .plugin(tauri_plugin_shell::init())
+        .manage(RenderJobs::default())
         .invoke_handler(tauri::generate_handler![
             greet, 
             get_video_duration, 
-            generate_thumbnail,
-            read_image_as_base64,
+            get_thumbnail,
             generate_timeline_thumbnails,
             exclude_file,
+            find_missing_files,
+            find_files_by_name,
+            zip_directory,
             run_ffmpeg,
-            get_video_resolution
+            run_ffmpeg_streaming,
+            cancel_render_job,
+            finish_render_job,
+            get_video_resolution,
+            get_video_frame_rate,
+            get_stream_info,
+            resolve_font_file,
+            get_media_orientation
         ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
@@ -1,47 +1,198 @@
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import { save, open } from '@tauri-apps/plugin-dialog';
-import { writeTextFile, readTextFile } from '@tauri-apps/plugin-fs';
 import { load } from '@tauri-apps/plugin-store';
-import { MediaItem } from './types';
+import { CropPosition, FramingMode, MediaItem, PhotoMotion, TransitionType } from './types';
 import MediaListPanel from './components/MediaListPanel';
 import PreviewPanel from './components/PreviewPanel';
 import EditingPanel from './components/EditingPanel';
-import CaptionSettingsModal, { CaptionSettings, DEFAULT_CAPTION_SETTINGS } from './components/Captionsettingsmodal';
+import CaptionSettingsModal from './components/Captionsettingsmodal';
 import AspectRatioModal from './components/AspectRatioModal';
-import { generateProjectHash, createSnapshot, ProjectSnapshot } from './utils/projectHash';
+import {
+  collectRenderInputs,
+  generateRenderHash,
+  generateAudioHash,
+  createSnapshot,
+  readProjectSnapshot,
+  writeProjectSnapshot,
+  ProjectSnapshot
+} from './utils/projectHash';
 import ProgressModal from './components/ProgressModal';
-import { exists } from '@tauri-apps/plugin-fs';
+import { exists, remove } from '@tauri-apps/plugin-fs';
 import FinalizationWindow from './components/FinalizationWindow';
-import { AudioTrack } from './components/AudioTimeline';
 import YouTubeTimestampsModal from './components/YouTubeTimestampsModal';
 import ResolutionModal from './components/ResolutionModal';
+import ExportSettingsModal from './components/ExportSettingsModal';
+import RenderQueueWindow from './components/RenderQueueWindow';
+import { useRenderQueue } from './hooks/useRenderQueue';
+import { createQueueJob } from './utils/renderQueue';
+import {
+  ProjectData,
+  Sequence,
+  DEFAULT_PROJECT_DATA,
+  createSequence,
+  getActiveSequence,
+  mergeIntoMediaPool,
+  getSequenceOutputPath as getProjectOutputPath,
+  loadProjectFile,
+  saveProjectFile
+} from './utils/projectFile';
+import { RelinkMap, findMissingMedia, applyRelinks } from './utils/mediaRelink';
+import { basename, stem } from './utils/paths';
+import { useHistory, useUndoRedoShortcuts, HistoryOptions } from './hooks/useHistory';
+import RelinkMediaModal from './components/RelinkMediaModal';
+import RenderFailureModal from './components/RenderFailureModal';
+import PackageProjectModal from './components/PackageProjectModal';
+import { PackageProjectOptions, packageProject } from './utils/packageProject';
+import ProjectTemplatesModal from './components/ProjectTemplatesModal';
+import SequenceSwitcher from './components/SequenceSwitcher';
+import { ProjectTemplate, createProjectFromTemplate, getTemplateSettings } from './utils/projectTemplates';
+import { RenderProgress } from './utils/ffmpegProgress';
+import { RenderItemError, RenderJob, createRenderJob, isRenderCancelled, isRenderItemError } from './utils/renderJob';
+import { getDominantFrameRate, probeFrameRate } from './utils/frameRate';
+import { MAX_TRANSITION_DURATION, MIN_TRANSITION_DURATION, TRANSITION_TYPES, getTimelineDuration } from './utils/timeline';
+import { FRAMING_MODES } from './utils/framing';
+import {
+  ExportSettings,
+  OUTPUT_FORMATS,
+  describeExportSettings,
+  fitExportSettings,
+  getOutputExtension
+} from './utils/exportProfiles';
+import { mergeVideoWithAudio } from './utils/exportVideo';
+import { DEFAULT_PARALLEL_JOBS, MAX_PARALLEL_JOBS, clampParallelJobs, loadParallelJobs, saveParallelJobs } from './utils/renderSettings';
+import { AUTOSAVE_INTERVAL_MS, writeRecoveryFile, removeRecoveryFile, findRecovery, loadRecoveryFile } from './utils/autosave';
+
+type ProjectDocument = Pick<
+  ProjectData,
+  'sequences' | 'activeSequenceId' | 'mediaPool' | 'outputFormat' | 'exportSettings' | 'defaultPhotoDuration' |
+  'defaultTransition' | 'defaultFraming' | 'captionSettings' | 'audioFiles'
+>;
+
+type SequenceSettings = Omit<Sequence, 'id' | 'name'>;
+
+// Edits to the active sequence and to project-wide settings, as passed to updateDocument
+type DocumentChanges = Partial<SequenceSettings & Omit<ProjectDocument, 'sequences' | 'activeSequenceId'>>;
+
+// Routes sequence-level changes into the active sequence and keeps the media pool
+// in sync with every file the sequences use
+function applyDocumentChanges(doc: ProjectDocument, changes: DocumentChanges): ProjectDocument {
+  const { mediaItems, aspectRatio, targetResolution, targetFrameRate, audioTracks, videoDuckingPercent, ...projectChanges } = changes;
+  const sequenceChanges = Object.fromEntries(
+    Object.entries({ mediaItems, aspectRatio, targetResolution, targetFrameRate, audioTracks, videoDuckingPercent })
+      .filter(([, value]) => value !== undefined)
+  ) as Partial<SequenceSettings>;
+
+  const activeId = getActiveSequence(doc).id;
+  const mediaPool = projectChanges.mediaPool ?? doc.mediaPool;
+
+  return {
+    ...doc,
+    ...projectChanges,
+    sequences: Object.keys(sequenceChanges).length === 0
+      ? doc.sequences
+      : doc.sequences.map(sequence => sequence.id === activeId ? { ...sequence, ...sequenceChanges } : sequence),
+    mediaPool: mediaItems ? mergeIntoMediaPool(mediaPool, mediaItems) : mediaPool
+  };
+}
 
 function App() {
-  const [mediaItems, setMediaItems] = useState<MediaItem[]>([]);
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
-  const [outputFormat, setOutputFormat] = useState('MP4');
-  const [defaultPhotoDuration, setDefaultPhotoDuration] = useState(3);
   const [splitPosition, setSplitPosition] = useState(50); // 50% split
   const [isDragging, setIsDragging] = useState(false);
   const [showFileMenu, setShowFileMenu] = useState(false);
   const [showEditMenu, setShowEditMenu] = useState(false);
   const [showCaptionSettings, setShowCaptionSettings] = useState(false);
   const [projectPath, setProjectPath] = useState<string | null>(null);
-  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  // Hash of the project as last saved or loaded; null forces the unsaved indicator (restored autosave)
+  // The saved project as JSON; compared whole rather than hashed, so no change can go unnoticed
+  const [savedDocumentJson, setSavedDocumentJson] = useState<string | null>(() => JSON.stringify(DEFAULT_PROJECT_DATA));
   const [isPreviewMode, setIsPreviewMode] = useState(false);
   const [recentProjects, setRecentProjects] = useState<string[]>([]);
-  const [captionSettings, setCaptionSettings] = useState<CaptionSettings>(DEFAULT_CAPTION_SETTINGS);
-  const [aspectRatio, setAspectRatio] = useState<string>('16:9');
   const [showAspectRatioModal, setShowAspectRatioModal] = useState(false);
 const [showProgressModal, setShowProgressModal] = useState(false);
 const [progressMessage, setProgressMessage] = useState('');
 const [progressPercent, setProgressPercent] = useState<number | undefined>(undefined);
+const [progressDetails, setProgressDetails] = useState<RenderProgress | null>(null);
+// The render or export that the progress modal's Cancel button stops
+const [activeRenderJob, setActiveRenderJob] = useState<RenderJob | null>(null);
+const [isCancellingRender, setIsCancellingRender] = useState(false);
+// An item that failed to render, with what's needed to retry the render without it
+const [renderFailure, setRenderFailure] = useState<{
+  error: RenderItemError;
+  resolution: string;
+  frameRate: string;
+  skippedItemIds: string[];
+} | null>(null);
 const [projectSnapshot, setProjectSnapshot] = useState<ProjectSnapshot | null>(null);
 const [combinedVideoPath, setCombinedVideoPath] = useState<string | null>(null);
 const [showFinalizationWindow, setShowFinalizationWindow] = useState(false);
 const [showYouTubeTimestamps, setShowYouTubeTimestamps] = useState(false);
 const [showResolutionModal, setShowResolutionModal] = useState(false);
+// Export settings are picked either to export right away or to add a render queue job
+const [exportSettingsMode, setExportSettingsMode] = useState<'export' | 'queue' | null>(null);
+const [showRenderQueue, setShowRenderQueue] = useState(false);
 const [forceRecombine, setForceRecombine] = useState(false);
+const [missingMediaPaths, setMissingMediaPaths] = useState<string[]>([]);
+const [showPackageModal, setShowPackageModal] = useState(false);
+const [templatesModalMode, setTemplatesModalMode] = useState<'save' | 'new' | null>(null);
+const [progressTitle, setProgressTitle] = useState('Processing Video');
+const [parallelJobs, setParallelJobs] = useState(DEFAULT_PARALLEL_JOBS);
+
+  // Undoable part of the project state
+  const projectHistory = useHistory<ProjectDocument>({
+    sequences: DEFAULT_PROJECT_DATA.sequences,
+    activeSequenceId: DEFAULT_PROJECT_DATA.activeSequenceId,
+    mediaPool: DEFAULT_PROJECT_DATA.mediaPool,
+    outputFormat: DEFAULT_PROJECT_DATA.outputFormat,
+    exportSettings: DEFAULT_PROJECT_DATA.exportSettings,
+    defaultPhotoDuration: DEFAULT_PROJECT_DATA.defaultPhotoDuration,
+    defaultTransition: DEFAULT_PROJECT_DATA.defaultTransition,
+    defaultFraming: DEFAULT_PROJECT_DATA.defaultFraming,
+    captionSettings: DEFAULT_PROJECT_DATA.captionSettings,
+    audioFiles: DEFAULT_PROJECT_DATA.audioFiles
+  });
+  const {
+    sequences,
+    mediaPool,
+    outputFormat,
+    exportSettings,
+    defaultPhotoDuration,
+    defaultTransition,
+    defaultFraming,
+    captionSettings,
+    audioFiles
+  } = projectHistory.present;
+  const activeSequence = getActiveSequence(projectHistory.present);
+  const {
+    mediaItems,
+    aspectRatio,
+    targetResolution,
+    targetFrameRate,
+    audioTracks,
+    videoDuckingPercent
+  } = activeSequence;
+
+  const updateDocument = (changes: DocumentChanges, options?: HistoryOptions) => {
+    projectHistory.set(doc => applyDocumentChanges(doc, changes), options);
+  };
+  const setMediaItems = (items: MediaItem[], options?: HistoryOptions) => updateDocument({ mediaItems: items }, options);
+
+  // Applied to whatever the project holds when the metadata arrives, so edits made while
+  // files were loading are kept (even in another sequence); removed items are left alone
+  const handleMediaItemLoaded = (itemId: string, metadata: Partial<MediaItem>) => {
+    projectHistory.set(doc => {
+      const sequence = doc.sequences.find(s => s.mediaItems.some(item => item.id === itemId));
+      if (!sequence) return doc;
+      const mediaItems = sequence.mediaItems.map(item => item.id === itemId ? { ...item, ...metadata } : item);
+      return {
+        ...doc,
+        sequences: doc.sequences.map(s => s.id === sequence.id ? { ...s, mediaItems } : s),
+        mediaPool: mergeIntoMediaPool(doc.mediaPool, mediaItems)
+      };
+    }, { skipHistory: true });
+  };
+
+  useUndoRedoShortcuts(projectHistory.undo, projectHistory.redo);
 
   const selectedItem = mediaItems.find(item => item.id === selectedItemId) || null;
 
@@ -55,13 +206,29 @@ const [forceRecombine, setForceRecombine] = useState(false);
         if (Array.isArray(stored)) {
           setRecentProjects(stored);
         }
+
+        // Offer to restore autosaved work from a previous session that didn't exit cleanly
+        const restoredUntitled = await offerRecovery(null);
+        if (!restoredUntitled && Array.isArray(stored) && stored.length > 0) {
+          await offerRecovery(stored[0]);
+        }
       } catch (error) {
         console.error('Error loading recent projects:', error);
       }
     };
     loadRecentProjects();
+
+    loadParallelJobs()
+      .then(setParallelJobs)
+      .catch(error => console.error('Error loading render settings:', error));
   }, []);
 
+  const handleParallelJobsChange = (value: number) => {
+    const jobs = clampParallelJobs(value);
+    setParallelJobs(jobs);
+    saveParallelJobs(jobs).catch(error => console.error('Error saving render settings:', error));
+  };
+
   // Save recent projects to Tauri store when changed
   useEffect(() => {
     const saveRecentProjects = async () => {
@@ -94,43 +261,24 @@ const [forceRecombine, setForceRecombine] = useState(false);
     });
   };
 
-  // Track changes to mark project as modified
-  useEffect(() => {
-    if (projectPath) {
-      setHasUnsavedChanges(true);
-    }
-  }, [mediaItems, outputFormat, defaultPhotoDuration, splitPosition, selectedItemId]);
-
-  // Calculate total and edited lengths
+  // Calculate total and edited lengths; transitions overlap items, so they shorten the edit
   const { totalLength, editedLength } = useMemo(() => {
     let total = 0;
-    let edited = 0;
 
     mediaItems.forEach(item => {
       if (item.type === 'video' && item.duration) {
         total += item.duration;
-        
-        // If clips are defined and exist, use only the clips duration
-        // Otherwise, use the full video duration
-        if (item.clips && item.clips.length > 0) {
-          const clipsTotal = item.clips.reduce((sum, clip) => {
-            return sum + (clip.end - clip.start);
-          }, 0);
-          edited += clipsTotal;
-        } else {
-          // No clips defined = include full video
-          edited += item.duration;
-        }
       } else if (item.type === 'image') {
         // Use individual photo duration if set, otherwise use global default
-        const photoDuration = item.photoDuration ?? defaultPhotoDuration;
-        total += photoDuration;
-        edited += photoDuration;
+        total += item.photoDuration ?? defaultPhotoDuration;
       }
     });
 
-    return { totalLength: total, editedLength: edited };
-  }, [mediaItems, defaultPhotoDuration]);
+    return {
+      totalLength: total,
+      editedLength: getTimelineDuration(mediaItems, defaultPhotoDuration, defaultTransition)
+    };
+  }, [mediaItems, defaultPhotoDuration, defaultTransition]);
 
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -142,7 +290,114 @@ const [forceRecombine, setForceRecombine] = useState(false);
     setSelectedItemId(id);
   };
 
-  const handleSaveProject = async () => {
+  // Collect the persisted parts of the project state
+  const getProjectData = (): ProjectData => ({
+    ...projectHistory.present,
+    splitPosition,
+    selectedItemId
+  });
+
+  // Compare against the last saved state to mark project as modified
+  const documentJson = useMemo(
+    () => JSON.stringify(getProjectData()),
+    [projectHistory.present, splitPosition, selectedItemId]
+  );
+  const hasUnsavedChanges = documentJson !== savedDocumentJson;
+  const markSaved = (projectData: ProjectData) => setSavedDocumentJson(JSON.stringify(projectData));
+
+  // Periodically write a recovery file while there are unsaved changes.
+  // The ref always holds the latest state so the interval doesn't need to be recreated.
+  const autosaveStateRef = useRef<{ projectPath: string | null; isDirty: boolean; getData: () => ProjectData } | null>(null);
+  autosaveStateRef.current = {
+    projectPath,
+    isDirty: hasUnsavedChanges,
+    getData: () => getProjectData()
+  };
+
+  useEffect(() => {
+    const interval = window.setInterval(async () => {
+      const state = autosaveStateRef.current;
+      if (!state || !state.isDirty) return;
+
+      try {
+        await writeRecoveryFile(state.projectPath, state.getData());
+        console.log('Autosaved recovery file');
+      } catch (error) {
+        console.error('Autosave failed:', error);
+      }
+    }, AUTOSAVE_INTERVAL_MS);
+
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const applyProjectData = (projectData: ProjectData) => {
+    projectHistory.reset({
+      sequences: projectData.sequences,
+      activeSequenceId: projectData.activeSequenceId,
+      mediaPool: projectData.mediaPool,
+      outputFormat: projectData.outputFormat,
+      exportSettings: projectData.exportSettings,
+      defaultPhotoDuration: projectData.defaultPhotoDuration,
+      defaultTransition: projectData.defaultTransition,
+      defaultFraming: projectData.defaultFraming,
+      captionSettings: projectData.captionSettings,
+      audioFiles: projectData.audioFiles
+    });
+    setSplitPosition(projectData.splitPosition);
+    setSelectedItemId(projectData.selectedItemId);
+  };
+
+  // Ask to restore a recovery file that is newer than the project; returns true if restored
+  const offerRecovery = async (targetProjectPath: string | null): Promise<boolean> => {
+    try {
+      const recovery = await findRecovery(targetProjectPath);
+      if (!recovery) return false;
+
+      const name = targetProjectPath ? basename(targetProjectPath) : 'an untitled project';
+      const confirmed = confirm(
+        `ClipJourney found autosaved changes for ${name} from ${recovery.modified.toLocaleString()} ` +
+        `that are newer than the last save.\n\nRestore them?`
+      );
+
+      if (!confirmed) {
+        await removeRecoveryFile(targetProjectPath);
+        return false;
+      }
+
+      const projectData = await loadRecoveryFile(recovery);
+      applyProjectData(projectData);
+      setProjectPath(targetProjectPath);
+      setSavedDocumentJson(null);
+      if (targetProjectPath) {
+        addToRecentProjects(targetProjectPath);
+      }
+      await checkForMissingMedia(projectData);
+      return true;
+    } catch (error) {
+      console.error('Error restoring recovery file:', error);
+      return false;
+    }
+  };
+
+  const checkForMissingMedia = async (projectData: ProjectData) => {
+    try {
+      const missing = await findMissingMedia(projectData);
+      if (missing.length > 0) {
+        console.log(`${missing.length} media file(s) missing`);
+        setMissingMediaPaths(missing);
+      }
+    } catch (error) {
+      console.error('Error checking for missing media:', error);
+    }
+  };
+
+  const handleRelinkMedia = (relinks: RelinkMap) => {
+    applyProjectData(applyRelinks(getProjectData(), relinks));
+    setMissingMediaPaths([]);
+  };
+
+  // Resolves to whether the project was saved
+  const handleSaveProject = async (): Promise<boolean> => {
     try {
       let filePath = projectPath;
 
@@ -156,31 +411,22 @@ const [forceRecombine, setForceRecombine] = useState(false);
           defaultPath: 'Untitled.cjproj'
         });
 
-        if (!filePath) return; // User cancelled
+        if (!filePath) return false; // User cancelled
       }
 
-      const projectData = {
-        version: '1.0',
-        mediaItems: mediaItems.map(item => ({
-          ...item,
-          dateCreated: item.dateCreated.toISOString()
-        })),
-        outputFormat,
-        defaultPhotoDuration,
-        captionSettings,
-        aspectRatio,
-        splitPosition,
-        selectedItemId
-      };
-
-      await writeTextFile(filePath, JSON.stringify(projectData, null, 2));
+      const projectData = getProjectData();
+      await saveProjectFile(filePath, projectData);
+      await removeRecoveryFile(projectPath);
+      if (projectPath !== filePath) await removeRecoveryFile(filePath);
       setProjectPath(filePath);
-      setHasUnsavedChanges(false);
+      markSaved(projectData);
       addToRecentProjects(filePath);
+      return true;
       
     } catch (error) {
       console.error('Error saving project:', error);
       alert(`Failed to save project: ${error}`);
+      return false;
     }
   };
 
@@ -196,23 +442,12 @@ const [forceRecombine, setForceRecombine] = useState(false);
 
       if (!filePath) return; // User cancelled
 
-    const projectData = {
-      version: '1.0',
-      mediaItems: mediaItems.map(item => ({
-        ...item,
-        dateCreated: item.dateCreated.toISOString()
-      })),
-      outputFormat,
-      defaultPhotoDuration,
-      captionSettings,
-      aspectRatio,
-      splitPosition,
-      selectedItemId
-    };
-
-      await writeTextFile(filePath, JSON.stringify(projectData, null, 2));
+      const projectData = getProjectData();
+      await saveProjectFile(filePath, projectData);
+      await removeRecoveryFile(projectPath);
+      if (projectPath !== filePath) await removeRecoveryFile(filePath);
       setProjectPath(filePath);
-      setHasUnsavedChanges(false);
+      markSaved(projectData);
       addToRecentProjects(filePath);
       
     } catch (error) {
@@ -229,26 +464,14 @@ const [forceRecombine, setForceRecombine] = useState(false);
         if (!confirmed) return;
       }
 
-      const content = await readTextFile(filePath);
-      const projectData = JSON.parse(content);
-
-      // Restore media items with Date objects
-      const restoredItems: MediaItem[] = projectData.mediaItems.map((item: any) => ({
-        ...item,
-        dateCreated: new Date(item.dateCreated)
-      }));
-
-      setMediaItems(restoredItems);
-      setOutputFormat(projectData.outputFormat || 'MP4');
-      setDefaultPhotoDuration(projectData.defaultPhotoDuration || 3);
-      setCaptionSettings(projectData.captionSettings || DEFAULT_CAPTION_SETTINGS);
-      setAspectRatio(projectData.aspectRatio || '16:9');
-      setSplitPosition(projectData.splitPosition || 50);
-      setSelectedItemId(projectData.selectedItemId || null);
+      const projectData = await loadProjectFile(filePath);
+      applyProjectData(projectData);
       setProjectPath(filePath);
-      setHasUnsavedChanges(false);
+      markSaved(projectData);
       addToRecentProjects(filePath);
-      await loadProjectSnapshot(filePath);
+      if (!(await offerRecovery(filePath))) {
+        await checkForMissingMedia(projectData);
+      }
     } catch (error) {
       console.error('Error loading recent project:', error);
       alert(`Failed to load project: ${error}`);
@@ -276,45 +499,102 @@ const [forceRecombine, setForceRecombine] = useState(false);
       if (!filePath) return;
 
       const filePathStr = Array.isArray(filePath) ? filePath[0] : filePath;
-      const content = await readTextFile(filePathStr);
-      const projectData = JSON.parse(content);
-
-      // Restore media items with Date objects
-      const restoredItems: MediaItem[] = projectData.mediaItems.map((item: any) => ({
-        ...item,
-        dateCreated: new Date(item.dateCreated)
-      }));
-
-      setMediaItems(restoredItems);
-      setOutputFormat(projectData.outputFormat || 'MP4');
-      setDefaultPhotoDuration(projectData.defaultPhotoDuration || 3);
-      setCaptionSettings(projectData.captionSettings || DEFAULT_CAPTION_SETTINGS);
-      setAspectRatio(projectData.aspectRatio || '16:9');
-      setSplitPosition(projectData.splitPosition || 50);
-      setSelectedItemId(projectData.selectedItemId || null);
+      const projectData = await loadProjectFile(filePathStr);
+      applyProjectData(projectData);
       setProjectPath(filePathStr);
-      setHasUnsavedChanges(false);
+      markSaved(projectData);
       addToRecentProjects(filePathStr);
-      await loadProjectSnapshot(filePathStr);
+      if (!(await offerRecovery(filePathStr))) {
+        await checkForMissingMedia(projectData);
+      }
     } catch (error) {
       console.error('Error loading project:', error);
       alert(`Failed to load project: ${error}`);
     }
   };
 
-  const handleNewProject = () => {
+  const startNewProject = (projectData: ProjectData) => {
     if (mediaItems.length > 0 || hasUnsavedChanges) {
       const confirmed = confirm('Are you sure? Any unsaved changes will be lost.');
-      if (!confirmed) return;
+      if (!confirmed) return false;
     }
     
-    setMediaItems([]);
-    setSelectedItemId(null);
-    setOutputFormat('MP4');
-    setDefaultPhotoDuration(3);
-    setSplitPosition(50);
+    removeRecoveryFile(projectPath);
+    applyProjectData(projectData);
     setProjectPath(null);
-    setHasUnsavedChanges(false);
+    markSaved(projectData);
+    return true;
+  };
+
+  const handleNewProject = () => {
+    startNewProject(DEFAULT_PROJECT_DATA);
+  };
+
+  const handleNewFromTemplate = (template: ProjectTemplate) => {
+    if (startNewProject(createProjectFromTemplate(template))) {
+      setTemplatesModalMode(null);
+    }
+  };
+
+  const getSequenceOutputPath = (suffix: string): string | null =>
+    projectPath ? getProjectOutputPath(projectPath, activeSequence, suffix) : null;
+  const snapshotPath = getSequenceOutputPath('_snapshot.json');
+
+  // When the queue has just re-rendered the open sequence, pick up its new snapshot
+  const renderQueue = useRenderQueue(parallelJobs, activeRenderJob ? projectPath : null, job => {
+    if (job.projectPath !== projectPath || job.sequenceId !== activeSequence.id || !snapshotPath) return;
+    readProjectSnapshot(snapshotPath).then(snapshot => {
+      setProjectSnapshot(snapshot);
+      setCombinedVideoPath(snapshot?.combinedVideoPath ?? null);
+    });
+  });
+  const pendingQueueJobs = renderQueue.jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+
+  // Switching is an undo step of its own: every history entry holds the whole project, so
+  // undoing past a switch has to switch back rather than apply another sequence's state here
+  const handleSwitchSequence = (id: string) => {
+    if (id === activeSequence.id) return;
+    projectHistory.set(doc => ({ ...doc, activeSequenceId: id }));
+    setSelectedItemId(null);
+  };
+
+  // New sequences start empty with the current framing; duplicates copy the whole edit
+  const handleCreateSequence = (name: string, duplicateActive: boolean) => {
+    const { id, name: activeName, ...settings } = activeSequence;
+    const sequence = duplicateActive
+      ? createSequence(name, settings)
+      : createSequence(name, { aspectRatio, targetResolution, targetFrameRate });
+
+    projectHistory.set(doc => ({
+      ...doc,
+      sequences: [...doc.sequences, sequence],
+      activeSequenceId: sequence.id
+    }));
+    setSelectedItemId(null);
+  };
+
+  const handleRenameSequence = (id: string, name: string) => {
+    projectHistory.set(doc => ({
+      ...doc,
+      sequences: doc.sequences.map(sequence => sequence.id === id ? { ...sequence, name } : sequence)
+    }));
+  };
+
+  const handleDeleteSequence = (id: string) => {
+    if (sequences.length <= 1) return;
+
+    projectHistory.set(doc => {
+      const index = doc.sequences.findIndex(sequence => sequence.id === id);
+      const remaining = doc.sequences.filter(sequence => sequence.id !== id);
+      return {
+        ...doc,
+        sequences: remaining,
+        activeSequenceId: doc.activeSequenceId === id
+          ? remaining[Math.max(0, index - 1)].id
+          : doc.activeSequenceId
+      };
+    });
+    setSelectedItemId(null);
   };
 
   const handleClipsChange = (clips: any[]) => {
@@ -326,6 +606,24 @@ const [forceRecombine, setForceRecombine] = useState(false);
     setMediaItems(updatedItems);
   };
 
+  const handleMotionChange = (motion: PhotoMotion | undefined) => {
+    if (!selectedItemId) return;
+
+    const updatedItems = mediaItems.map(item =>
+      item.id === selectedItemId ? { ...item, motion } : item
+    );
+    setMediaItems(updatedItems, { coalesceKey: `motion:${selectedItemId}` });
+  };
+
+  const handleFramingChange = (framing: FramingMode | undefined, cropPosition: CropPosition | undefined) => {
+    if (!selectedItemId) return;
+
+    const updatedItems = mediaItems.map(item =>
+      item.id === selectedItemId ? { ...item, framing, cropPosition } : item
+    );
+    setMediaItems(updatedItems, { coalesceKey: `framing:${selectedItemId}` });
+  };
+
   const handleMouseDown = () => {
     setIsDragging(true);
   };
@@ -346,66 +644,55 @@ const [forceRecombine, setForceRecombine] = useState(false);
     setIsDragging(false);
   };
 
-// Load snapshot from project file
-const loadProjectSnapshot = async (projectFilePath: string) => {
-  try {
-    const snapshotPath = projectFilePath.replace('.cjproj', '_snapshot.json');
-    const snapshotExists = await exists(snapshotPath);
-    
-    if (snapshotExists) {
-      const content = await readTextFile(snapshotPath);
-      const snapshot: ProjectSnapshot = JSON.parse(content);
-      setProjectSnapshot(snapshot);
-      
-      // Check if combined video exists
-// Check if combined video exists AND is not empty
-const videoExists = await exists(snapshot.combinedVideoPath);
-if (videoExists) {
-  setCombinedVideoPath(snapshot.combinedVideoPath);
-} else {
-  // Video file doesn't exist anymore, clear the snapshot
-  setCombinedVideoPath(null);
+// Each sequence has its own render cache; reload it when the project or sequence changes
+useEffect(() => {
   setProjectSnapshot(null);
-}
-    }
-  } catch (error) {
-    console.error('Error loading snapshot:', error);
-  }
-};
+  setCombinedVideoPath(null);
+  if (!snapshotPath) return;
+
+  let cancelled = false;
+  readProjectSnapshot(snapshotPath).then(snapshot => {
+    if (cancelled || !snapshot) return;
+    setProjectSnapshot(snapshot);
+    setCombinedVideoPath(snapshot.combinedVideoPath);
+  });
+  return () => {
+    cancelled = true;
+  };
+}, [snapshotPath]);
 
 // Save snapshot after combining video
 const saveProjectSnapshot = async (snapshot: ProjectSnapshot) => {
   try {
-    if (!projectPath) return;
+    if (!snapshotPath) return;
     
-    const snapshotPath = projectPath.replace('.cjproj', '_snapshot.json');
-    await writeTextFile(snapshotPath, JSON.stringify(snapshot, null, 2));
+    await writeProjectSnapshot(snapshotPath, snapshot);
     setProjectSnapshot(snapshot);
   } catch (error) {
     console.error('Error saving snapshot:', error);
   }
 };
 
-// Check if video needs re-combining
-// Check if video needs re-combining
-const needsRecombining = async (): Promise<boolean> => {
+// Check if video needs re-combining. Without a resolution, checks whether the cached
+// render is still current at the resolution it was made with.
+const needsRecombining = async (targetResolution?: string, frameRate?: string): Promise<boolean> => {
   // Force recombine if checkbox is checked
   if (forceRecombine) {
     console.log('Force re-combine enabled');
     return true;
   }
 
-  const currentHash = generateProjectHash({
-    mediaItems,
-    captionSettings,
-    aspectRatio,
-    defaultPhotoDuration
-  });
-  
-  if (!projectSnapshot) {
+  if (!projectSnapshot?.inputs) {
     console.log('No snapshot found - needs combining');
     return true;
   }
+
+  const inputs = await collectRenderInputs(
+    { mediaItems, captionSettings, aspectRatio, defaultPhotoDuration, defaultTransition, defaultFraming },
+    targetResolution ?? projectSnapshot.inputs.targetResolution,
+    frameRate ?? projectSnapshot.inputs.frameRate ?? getOutputFrameRate()
+  );
+  const currentHash = await generateRenderHash(inputs);
   
   if (projectSnapshot.projectHash !== currentHash) {
     console.log('Hash mismatch - needs combining');
@@ -430,6 +717,14 @@ const needsRecombining = async (): Promise<boolean> => {
   return false;
 };
 
+// The queue and the app would write the same render cache and output files. The queue
+// holds back jobs for this project while the app renders it; this is the other direction.
+const isQueueRenderingProject = (): boolean => {
+  if (!projectPath || renderQueue.activeJob?.projectPath !== projectPath) return false;
+  alert('This project is being rendered by the render queue. Wait for that job to finish or pause it first.');
+  return true;
+};
+
 // Handle Finalize & Export button click
 const handleFinalizeAndExport = async () => {
   if (!projectPath) {
@@ -441,13 +736,16 @@ const handleFinalizeAndExport = async () => {
     alert('No media items to combine');
     return;
   }
+
+  if (isQueueRenderingProject()) return;
   
   try {
     // Check if we need to recombine FIRST
     const needsUpdate = await needsRecombining();
     
     if (needsUpdate) {
-      // Video needs combining - show resolution modal
+      // Video needs combining - show resolution modal, which suggests a frame rate from the sources
+      await probeMissingFrameRates();
       setShowResolutionModal(true);
     } else {
       // Reuse existing video - skip modal, go straight to finalization
@@ -461,6 +759,13 @@ const handleFinalizeAndExport = async () => {
 };
 
 const getSuggestedResolution = (): string => {
+  if (targetResolution) {
+    return targetResolution;
+  }
+  // Reusing the last resolution keeps the cached render valid
+  if (projectSnapshot?.inputs) {
+    return projectSnapshot.inputs.targetResolution;
+  }
   const firstVideo = mediaItems.find(item => item.type === 'video');
   if (firstVideo?.resolution) {
     return firstVideo.resolution;
@@ -468,61 +773,173 @@ const getSuggestedResolution = (): string => {
   return '2704x1520'; // Default to common GoPro resolution
 };
 
-const handleResolutionConfirm = async (resolution: string) => {
+// Videos added before frame rates were probed (or whose probe failed) have none yet
+const probeMissingFrameRates = async () => {
+  const missingPaths = new Set(
+    mediaItems.filter(item => item.type === 'video' && !item.frameRate).map(item => item.filepath)
+  );
+  if (missingPaths.size === 0) return;
+
+  const rates = new Map<string, string>();
+  for (const path of missingPaths) {
+    const rate = await probeFrameRate(path);
+    if (rate) rates.set(path, rate);
+  }
+  if (rates.size === 0) return;
+
+  // Metadata loading isn't an undo step
+  updateDocument({
+    mediaItems: mediaItems.map(item => {
+      const rate = item.type === 'video' && !item.frameRate ? rates.get(item.filepath) : undefined;
+      return rate ? { ...item, frameRate: rate } : item;
+    })
+  }, { skipHistory: true });
+};
+
+// The sequence's chosen rate, otherwise the rate most of its footage was shot at
+const getOutputFrameRate = (): string => targetFrameRate ?? getDominantFrameRate(mediaItems);
+
+const handleResolutionConfirm = async (resolution: string, frameRate: string | null) => {
   setShowResolutionModal(false);
-    
+  if (resolution !== targetResolution || frameRate !== targetFrameRate) {
+    updateDocument({ targetResolution: resolution, targetFrameRate: frameRate });
+  }
+
+  await renderAndFinalize(resolution, frameRate ?? getDominantFrameRate(mediaItems));
+};
+
+// Skipped items are left out of this render only, so the next render tries them again
+const renderAndFinalize = async (resolution: string, outputFrameRate: string, skippedItemIds: string[] = []) => {
+  if (isQueueRenderingProject()) return;
   try {
-    if (await needsRecombining()) {
-      // Re-combine video with selected resolution
+    if (skippedItemIds.length > 0 || await needsRecombining(resolution, outputFrameRate)) {
+      // Re-combine video with selected resolution and frame rate
       setProgressMessage('Combining video clips...');
-      await combineVideoWithResolution(resolution);
+      await combineVideoWithResolution(resolution, outputFrameRate, skippedItemIds);
     }
     
     // Now open the finalization window
     setShowFinalizationWindow(true);
     
   } catch (error) {
+    if (isRenderCancelled(error)) {
+      console.log('Combining cancelled');
+      return;
+    }
+    if (isRenderItemError(error)) {
+      // The render numbers items without the skipped ones; show the item's place in the sequence
+      const index = mediaItems.findIndex(item => item.id === error.itemId);
+      setRenderFailure({
+        error: index === -1 || index === error.itemIndex
+          ? error
+          : new RenderItemError(mediaItems[index], index, error.details, error.logPath),
+        resolution,
+        frameRate: outputFrameRate,
+        skippedItemIds
+      });
+      return;
+    }
     console.error('Error in finalization:', error);
     alert(`Error: ${error}`);
   }
 };
 
-const combineVideoWithResolution = async (resolution: string): Promise<string> => {
+const handleSkipFailedItem = async () => {
+  if (!renderFailure) return;
+  const { error, resolution, frameRate, skippedItemIds } = renderFailure;
+  setRenderFailure(null);
+
+  const skipped = [...skippedItemIds, error.itemId];
+  if (mediaItems.every(item => skipped.includes(item.id))) {
+    alert('Every item has been skipped, there is nothing left to render.');
+    return;
+  }
+  await renderAndFinalize(resolution, frameRate, skipped);
+};
+
+const handleGoToFailedItem = () => {
+  if (!renderFailure) return;
+  setRenderFailure(null);
+  setIsPreviewMode(false);
+  setSelectedItemId(renderFailure.error.itemId);
+};
+
+// Starts a cancellable job shown in the progress modal
+const beginRenderJob = (kind: 'render' | 'export'): RenderJob => {
+  const job = createRenderJob(kind);
+  setActiveRenderJob(job);
+  setIsCancellingRender(false);
+  return job;
+};
+
+const endRenderJob = async (job: RenderJob) => {
+  await job.finish();
+  setActiveRenderJob(current => current === job ? null : current);
+  setIsCancellingRender(false);
+};
+
+const handleCancelRender = async () => {
+  if (!activeRenderJob) return;
+  setIsCancellingRender(true);
+  setProgressMessage('Cancelling...');
+  try {
+    await activeRenderJob.cancel();
+  } catch (error) {
+    console.error('Error cancelling render:', error);
+  }
+};
+
+const combineVideoWithResolution = async (
+  resolution: string,
+  frameRate: string,
+  skippedItemIds: string[] = []
+): Promise<string> => {
   return new Promise(async (resolve, reject) => {
+    const renderJob = beginRenderJob('render');
     try {
       setShowProgressModal(true);
       setProgressMessage('Combining video clips...');
       setProgressPercent(0);
+      setProgressDetails(null);
       
-      const combinedPath = projectPath!.replace('.cjproj', '_combined.mp4');
+      const combinedPath = getSequenceOutputPath('_combined.mp4')!;
+      // With items skipped the snapshot won't match the sequence, so the next render includes them again
+      const renderItems = mediaItems.filter(item => !skippedItemIds.includes(item.id));
+
+      // Fingerprint the sources before rendering so a file replaced mid-render isn't marked current
+      const inputs = await collectRenderInputs(
+        { mediaItems: renderItems, captionSettings, aspectRatio, defaultPhotoDuration, defaultTransition, defaultFraming },
+        resolution,
+        frameRate
+      );
       
       const { combineVideo: ffmpegCombine } = await import('./utils/ffmpeg');
       
       // Pass resolution to ffmpeg
       await ffmpegCombine({
-        mediaItems,
+        mediaItems: renderItems,
         outputPath: combinedPath,
         aspectRatio,
         defaultPhotoDuration,
         captionSettings,
         targetResolution: resolution,
-        onProgress: (percent) => {
-          setProgressPercent(percent);
+        frameRate,
+        defaultTransition,
+        defaultFraming,
+        maxParallelJobs: parallelJobs,
+        renderJob,
+        onProgress: (progress) => {
+          setProgressPercent(progress.percent);
+          setProgressDetails(progress);
         }
       });
       
-      const currentHash = generateProjectHash({
-        mediaItems,
-        captionSettings,
-        aspectRatio,
-        defaultPhotoDuration
-      });
-      
       const snapshot = createSnapshot(
-        currentHash,
+        await generateRenderHash(inputs),
+        inputs,
         combinedPath,
-        mediaItems.length,
-        editedLength
+        renderItems.length,
+        getTimelineDuration(renderItems, defaultPhotoDuration, defaultTransition)
       );
       
       await saveProjectSnapshot(snapshot);
@@ -531,8 +948,16 @@ const combineVideoWithResolution = async (resolution: string): Promise<string> =
       setShowProgressModal(false);
       resolve(combinedPath);
     } catch (error) {
+      if (isRenderCancelled(error) && snapshotPath) {
+        // A cancel while joining removes the combined video, so the cached render may be gone
+        const snapshot = await readProjectSnapshot(snapshotPath);
+        setProjectSnapshot(snapshot);
+        setCombinedVideoPath(snapshot?.combinedVideoPath ?? null);
+      }
       setShowProgressModal(false);
       reject(error);
+    } finally {
+      await endRenderJob(renderJob);
     }
   });
 };
@@ -541,126 +966,135 @@ const handleCloseFinalization = () => {
   setShowFinalizationWindow(false);
 };
 
-const handleFinalExport = async (audioTracks: AudioTrack[], videoDuckingPercent: number) => {
+const handlePackageProject = async (options: Omit<PackageProjectOptions, 'onProgress'>) => {
+  setShowPackageModal(false);
+
+  try {
+    setProgressTitle('Packaging Project');
+    setProgressMessage('Preparing package...');
+    setProgressPercent(0);
+    setProgressDetails(null);
+    setShowProgressModal(true);
+
+    const outputPath = await packageProject(getProjectData(), {
+      ...options,
+      onProgress: (percent, message) => {
+        setProgressPercent(percent);
+        setProgressMessage(message);
+      }
+    });
+
+    setShowProgressModal(false);
+    alert(`Project packaged successfully!\n${outputPath}`);
+  } catch (error) {
+    console.error('Error packaging project:', error);
+    setShowProgressModal(false);
+    alert(`Packaging failed: ${error}`);
+  } finally {
+    setProgressTitle('Processing Video');
+  }
+};
+
+const handleExportSettingsConfirm = (format: string, settings: ExportSettings) => {
+  setExportSettingsMode(null);
+  if (format !== outputFormat || JSON.stringify(settings) !== JSON.stringify(exportSettings)) {
+    updateDocument({ outputFormat: format, exportSettings: settings });
+  }
+  handleFinalExport(format, settings);
+};
+
+// Queued jobs render the saved project file, so unsaved edits have to be saved first.
+// The preset belongs to the job only; the project's own export settings are left alone.
+const handleAddToQueue = async (format: string, settings: ExportSettings) => {
+  if (!projectPath) {
+    alert('Please save your project first');
+    return;
+  }
+  if (hasUnsavedChanges) {
+    if (!confirm('The render queue renders the saved project. Save your changes and add it to the queue?')) return;
+    if (!(await handleSaveProject())) return;
+  }
+
+  renderQueue.addJob(createQueueJob(projectPath, activeSequence, format, settings));
+  setExportSettingsMode(null);
+};
+
+const handleOutputFormatChange = (format: string) => {
+  updateDocument({ outputFormat: format, exportSettings: fitExportSettings(format, exportSettings) });
+};
+
+const handleFinalExport = async (format: string, settings: ExportSettings) => {
   if (!combinedVideoPath || !projectPath) {
     alert('No video to export');
     return;
   }
+  if (isQueueRenderingProject()) return;
+
+  const audioHash = generateAudioHash(audioTracks, videoDuckingPercent);
+  const finalOutputPath = getSequenceOutputPath(`_final.${getOutputExtension(format)}`)!;
+
+  // The snapshot remembers which audio mix and encoder settings the last export used
+  if (
+    projectSnapshot?.finalVideoPath === finalOutputPath &&
+    JSON.stringify(projectSnapshot.exportSettings) === JSON.stringify(settings) &&
+    projectSnapshot.audioHash === audioHash &&
+    projectSnapshot.combinedVideoPath === combinedVideoPath &&
+    (await exists(projectSnapshot.finalVideoPath))
+  ) {
+    const confirmed = confirm(
+      `Nothing has changed since the last export:\n${projectSnapshot.finalVideoPath}\n\nExport again anyway?`
+    );
+    if (!confirmed) return;
+  }
+
+  const renderJob = beginRenderJob('export');
 
   try {
     setShowFinalizationWindow(false);
     setProgressMessage('Exporting final video with audio...');
     setProgressPercent(0);
+    setProgressDetails(null);
     setShowProgressModal(true);
 
-    const projectDir = projectPath.substring(0, projectPath.lastIndexOf('\\'));
-    const projectName = projectPath.substring(
-      projectPath.lastIndexOf('\\') + 1,
-      projectPath.lastIndexOf('.cjproj')
+    const onProgress = (progress: RenderProgress) => {
+      setProgressPercent(progress.percent);
+      setProgressDetails(progress);
+    };
+
+    await mergeVideoWithAudio(
+      combinedVideoPath,
+      audioTracks,
+      finalOutputPath,
+      format,
+      settings,
+      videoDuckingPercent,
+      projectSnapshot?.totalDuration ?? editedLength,
+      onProgress,
+      renderJob
     );
-    const finalOutputPath = `${projectDir}\\${projectName}_final.mp4`;
 
-    if (audioTracks.length === 0) {
-      // No audio tracks, just copy combined video as final
-      const { invoke } = await import('@tauri-apps/api/core');
-      await invoke('run_ffmpeg', {
-        args: ['-i', combinedVideoPath, '-c', 'copy', '-y', finalOutputPath]
-      });
-    } else {
-      // Merge video with audio tracks
-      await mergeVideoWithAudio(combinedVideoPath, audioTracks, finalOutputPath, videoDuckingPercent);
+    if (projectSnapshot) {
+      await saveProjectSnapshot({ ...projectSnapshot, finalVideoPath: finalOutputPath, audioHash, exportSettings: settings });
     }
 
     setShowProgressModal(false);
     alert(`Video exported successfully!\n${finalOutputPath}`);
 
   } catch (error) {
-    console.error('Error exporting final video:', error);
     setShowProgressModal(false);
+    if (isRenderCancelled(error)) {
+      // Don't leave a half-written export behind; go back to where the export started
+      if (await exists(finalOutputPath)) await remove(finalOutputPath);
+      setShowFinalizationWindow(true);
+      return;
+    }
+    console.error('Error exporting final video:', error);
     alert(`Export failed: ${error}`);
+  } finally {
+    await endRenderJob(renderJob);
   }
 };
 
-// Complete mergeVideoWithAudio function with video ducking
-// Replace your existing mergeVideoWithAudio function in App.tsx with this:
-
-// Fixed mergeVideoWithAudio in App.tsx
-// The fade-out start time was calculating negative values
-
-const mergeVideoWithAudio = async (
-  videoPath: string,
-  audioTracks: AudioTrack[],
-  outputPath: string,
-  videoDuckingPercent: number
-) => {
-  const { invoke } = await import('@tauri-apps/api/core');
-  
-  if (audioTracks.length === 0) {
-    await invoke('run_ffmpeg', {
-      args: ['-i', videoPath, '-c', 'copy', '-y', outputPath]
-    });
-    return;
-  }
-  
-  const inputs = ['-i', videoPath];
-  audioTracks.forEach(track => inputs.push('-i', track.filepath));
-
-  const audioFilters: string[] = [];
-  
-  // Process music tracks
-  audioTracks.forEach((track, i) => {
-    const inputIdx = i + 1;
-    const trackDuration = track.fullDuration - track.clipStart - track.clipEnd;
-    
-    let filterChain = `[${inputIdx}:a]`;
-    
-    if (track.clipStart > 0 || track.clipEnd > 0) {
-      const trimEnd = track.fullDuration - track.clipEnd;
-      filterChain += `atrim=start=${track.clipStart}:end=${trimEnd},asetpts=PTS-STARTPTS,`;
-    }
-    
-    // FIX: Only add fade-in if duration is positive
-    if ((track.fadeInDuration || 0) > 0 && trackDuration > 0) {
-      filterChain += `afade=t=in:st=0:d=${Math.min(track.fadeInDuration, trackDuration)},`;
-    }
-    
-    // FIX: Calculate fade-out correctly
-    if ((track.fadeOutDuration || 0) > 0 && trackDuration > 0) {
-      const fadeOutStart = Math.max(0, trackDuration - track.fadeOutDuration);
-      const fadeOutDuration = Math.min(track.fadeOutDuration, trackDuration);
-      filterChain += `afade=t=out:st=${fadeOutStart}:d=${fadeOutDuration},`;
-    }
-    
-    filterChain += `volume=${track.volume},adelay=${Math.round(track.timelineStart * 1000)}|${Math.round(track.timelineStart * 1000)}[a${i}]`;
-    audioFilters.push(filterChain);
-  });
-
-  // Simple video audio ducking
-  const duckingVolume = videoDuckingPercent / 100;
-  audioFilters.push(`[0:a]volume=${duckingVolume},aformat=sample_rates=48000:channel_layouts=stereo[va]`);
-
-  // Mix everything
-  const mixInputs = ['[va]', ...audioTracks.map((_, i) => `[a${i}]`)].join('');
-  const mixFilter = `${mixInputs}amix=inputs=${audioTracks.length + 1}:duration=first:normalize=0[aout]`;
-
-  const filterComplex = audioFilters.join(';') + ';' + mixFilter;
-
-  const args = [
-    ...inputs,
-    '-filter_complex', filterComplex,
-    '-map', '0:v',
-    '-map', '[aout]',
-    '-c:v', 'copy',
-    '-c:a', 'aac',
-    '-b:a', '192k',
-    '-y',
-    outputPath
-  ];
-
-  console.log('FFmpeg export args:', args);
-  await invoke('run_ffmpeg', { args });
-};
-
   return (
     <div className="h-screen w-screen flex flex-col bg-gray-900 text-white overflow-hidden">
       {/* Menu Bar */}
@@ -688,6 +1122,15 @@ const mergeVideoWithAudio = async (
                 >
                   New Project
                 </button>
+                <button
+                  onClick={() => {
+                    setTemplatesModalMode('new');
+                    setShowFileMenu(false);
+                  }}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-700 text-sm"
+                >
+                  New from Template...
+                </button>
                 <button
                   onClick={() => {
                     handleLoadProject();
@@ -716,6 +1159,26 @@ const mergeVideoWithAudio = async (
                 >
                   Save Project As...
                 </button>
+                <button
+                  onClick={() => {
+                    setTemplatesModalMode('save');
+                    setShowFileMenu(false);
+                  }}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-700 text-sm"
+                >
+                  Save as Template...
+                </button>
+                <div className="border-t border-gray-700 my-1" />
+                <button
+                  onClick={() => {
+                    setShowPackageModal(true);
+                    setShowFileMenu(false);
+                  }}
+                  disabled={mediaPool.length === 0}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-700 text-sm disabled:text-gray-500 disabled:hover:bg-transparent"
+                >
+                  Package Project...
+                </button>
                 
                 {/* Recent Projects */}
                 {recentProjects.length > 0 && (
@@ -734,7 +1197,7 @@ const mergeVideoWithAudio = async (
                         className="w-full px-4 py-2 text-left hover:bg-gray-700 text-xs text-gray-300 truncate"
                         title={path}
                       >
-                        {index + 1}. {path.split('\\').pop()?.split('/').pop() || path}
+                        {index + 1}. {basename(path)}
                       </button>
                     ))}
                   </>
@@ -757,6 +1220,29 @@ const mergeVideoWithAudio = async (
                 onClick={() => setShowEditMenu(false)}
               />
               <div className="absolute left-0 top-full mt-1 bg-gray-800 border border-gray-600 rounded shadow-lg py-1 z-20 min-w-40">
+                <button
+                  onClick={() => {
+                    projectHistory.undo();
+                    setShowEditMenu(false);
+                  }}
+                  disabled={!projectHistory.canUndo}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-700 text-sm flex justify-between gap-4 disabled:text-gray-500 disabled:hover:bg-transparent"
+                >
+                  <span>Undo</span>
+                  <span className="text-xs text-gray-500">Ctrl+Z</span>
+                </button>
+                <button
+                  onClick={() => {
+                    projectHistory.redo();
+                    setShowEditMenu(false);
+                  }}
+                  disabled={!projectHistory.canRedo}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-700 text-sm flex justify-between gap-4 disabled:text-gray-500 disabled:hover:bg-transparent"
+                >
+                  <span>Redo</span>
+                  <span className="text-xs text-gray-500">Ctrl+Shift+Z</span>
+                </button>
+                <div className="border-t border-gray-700 my-1" />
                 <button
                   onClick={() => {
                     setShowAspectRatioModal(true);
@@ -790,6 +1276,24 @@ const mergeVideoWithAudio = async (
         </div>
         <button className="hover:bg-gray-700 px-3 py-1 rounded">View</button>
         <button className="hover:bg-gray-700 px-3 py-1 rounded">Help</button>
+        <button
+          onClick={() => setShowRenderQueue(true)}
+          className="hover:bg-gray-700 px-3 py-1 rounded"
+        >
+          Render Queue
+          {pendingQueueJobs > 0 && (
+            <span className="ml-1 text-blue-400">({pendingQueueJobs})</span>
+          )}
+        </button>
+        <div className="w-px h-4 bg-gray-700 mx-2"></div>
+        <SequenceSwitcher
+          sequences={sequences}
+          activeSequenceId={activeSequence.id}
+          onSwitch={handleSwitchSequence}
+          onCreate={handleCreateSequence}
+          onRename={handleRenameSequence}
+          onDelete={handleDeleteSequence}
+        />
       </div>
 
       {/* Settings Panel */}
@@ -802,7 +1306,7 @@ const mergeVideoWithAudio = async (
               {projectPath && (
                 <>
                   {' - '}
-                  {projectPath.split('\\').pop()?.split('/').pop()}
+                  {basename(projectPath)}
                   {hasUnsavedChanges && <span className="text-orange-400"> *</span>}
                 </>
               )}
@@ -820,7 +1324,7 @@ const mergeVideoWithAudio = async (
     <button 
       onClick={() => {
         // Force recalculation by updating a dummy state
-        setMediaItems([...mediaItems]);
+        setMediaItems([...mediaItems], { skipHistory: true });
       }}
       className="text-xs px-1.5 py-0.5 bg-gray-700 hover:bg-gray-600 rounded"
       title="Recalculate edited length"
@@ -841,28 +1345,98 @@ const mergeVideoWithAudio = async (
             <input 
               type="number" 
               value={defaultPhotoDuration}
-              onChange={(e) => setDefaultPhotoDuration(Math.max(0.1, Number(e.target.value)))}
+              onChange={(e) => updateDocument(
+                { defaultPhotoDuration: Math.max(0.1, Number(e.target.value)) },
+                { coalesceKey: 'defaultPhotoDuration' }
+              )}
               min="0.1"
               step="0.5"
               className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm"
             />
             <span className="text-sm text-gray-400">seconds</span>
           </div>
+
+          <div className="flex items-center gap-2">
+            <label className="text-sm">Transitions:</label>
+            <select
+              value={defaultTransition.type}
+              onChange={(e) => updateDocument({
+                defaultTransition: { ...defaultTransition, type: e.target.value as TransitionType }
+              })}
+              className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm"
+              title="Used between items that don't set their own transition"
+            >
+              {TRANSITION_TYPES.map(transition => (
+                <option key={transition.value} value={transition.value}>{transition.label}</option>
+              ))}
+            </select>
+            {defaultTransition.type !== 'none' && (
+              <>
+                <input
+                  type="number"
+                  value={defaultTransition.duration}
+                  onChange={(e) => updateDocument(
+                    {
+                      defaultTransition: {
+                        ...defaultTransition,
+                        duration: Math.min(MAX_TRANSITION_DURATION, Math.max(MIN_TRANSITION_DURATION, Number(e.target.value)))
+                      }
+                    },
+                    { coalesceKey: 'defaultTransitionDuration' }
+                  )}
+                  min={MIN_TRANSITION_DURATION}
+                  max={MAX_TRANSITION_DURATION}
+                  step="0.25"
+                  className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm"
+                />
+                <span className="text-sm text-gray-400">s</span>
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label className="text-sm">Framing:</label>
+            <select
+              value={defaultFraming}
+              onChange={(e) => updateDocument({ defaultFraming: e.target.value as FramingMode })}
+              className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm"
+              title="How items that don't match the aspect ratio fill the frame, unless they set their own"
+            >
+              {FRAMING_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </div>
           
           <div className="flex items-center gap-2">
             <label className="text-sm">Output Format:</label>
             <select 
               value={outputFormat}
-              onChange={(e) => setOutputFormat(e.target.value)}
+              onChange={(e) => handleOutputFormatChange(e.target.value)}
               className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm"
+              title={describeExportSettings(outputFormat, exportSettings)}
             >
-              <option>MP4</option>
-              <option>MOV</option>
-              <option>AVI</option>
+              {OUTPUT_FORMATS.map(format => (
+                <option key={format.value} value={format.value}>{format.value}</option>
+              ))}
             </select>
           </div>
 
 <div className="ml-auto flex items-center gap-3">
+  <label
+    className="flex items-center gap-2 text-xs text-gray-400"
+    title="Number of items encoded at the same time"
+  >
+    Parallel Jobs
+    <input
+      type="number"
+      value={parallelJobs}
+      onChange={(e) => handleParallelJobsChange(Number(e.target.value))}
+      min="1"
+      max={MAX_PARALLEL_JOBS}
+      className="w-14 px-2 py-0.5 bg-gray-700 border border-gray-600 rounded text-xs text-white"
+    />
+  </label>
   <label className="flex items-center gap-2 text-xs text-gray-400">
     <input
       type="checkbox"
@@ -888,10 +1462,13 @@ const mergeVideoWithAudio = async (
         {/* MediaList Panel */}
         <MediaListPanel
           mediaItems={mediaItems}
+          mediaPool={mediaPool}
           selectedItemId={selectedItemId}
           defaultPhotoDuration={defaultPhotoDuration}
+          defaultTransition={defaultTransition}
           isPreviewMode={isPreviewMode}
           onMediaItemsChange={setMediaItems}
+          onMediaItemLoaded={handleMediaItemLoaded}
           onSelectItem={handleSelectItem}
         />
 {/* Right Side - Resizable Split */}
@@ -907,6 +1484,9 @@ const mergeVideoWithAudio = async (
               selectedItem={selectedItem}
               aspectRatio={aspectRatio}
               onClipsChange={handleClipsChange}
+              defaultFraming={defaultFraming}
+              onMotionChange={handleMotionChange}
+              onFramingChange={handleFramingChange}
             />
           </div>
 
@@ -924,6 +1504,8 @@ const mergeVideoWithAudio = async (
               selectedItem={selectedItem} 
               mediaItems={mediaItems}
               defaultPhotoDuration={defaultPhotoDuration}
+              defaultTransition={defaultTransition}
+              defaultFraming={defaultFraming}
               captionSettings={captionSettings}
             aspectRatio={aspectRatio}
             onCurrentItemChange={handleSelectItem}
@@ -938,8 +1520,7 @@ const mergeVideoWithAudio = async (
         <CaptionSettingsModal
           settings={captionSettings}
           onSave={(newSettings) => {
-            setCaptionSettings(newSettings);
-            setHasUnsavedChanges(true);
+            updateDocument({ captionSettings: newSettings });
           }}
           onClose={() => setShowCaptionSettings(false)}
         />
@@ -949,8 +1530,7 @@ const mergeVideoWithAudio = async (
         <AspectRatioModal
           currentRatio={aspectRatio}
           onSave={(newRatio) => {
-            setAspectRatio(newRatio);
-            setHasUnsavedChanges(true);
+            updateDocument({ aspectRatio: newRatio });
           }}
           onClose={() => setShowAspectRatioModal(false)}
         />
@@ -959,9 +1539,12 @@ const mergeVideoWithAudio = async (
       {/* Progress Modal */}
       {showProgressModal && (
         <ProgressModal
-          title="Processing Video"
+          title={progressTitle}
           message={progressMessage}
           progress={progressPercent}
+          details={progressDetails}
+          onCancel={activeRenderJob ? handleCancelRender : undefined}
+          isCancelling={isCancellingRender}
         />
       )}
 
@@ -970,13 +1553,52 @@ const mergeVideoWithAudio = async (
   <YouTubeTimestampsModal
     mediaItems={mediaItems}
     defaultPhotoDuration={defaultPhotoDuration}
+    defaultTransition={defaultTransition}
     onClose={() => setShowYouTubeTimestamps(false)}
   />
 )}
 
+{missingMediaPaths.length > 0 && (
+  <RelinkMediaModal
+    missingPaths={missingMediaPaths}
+    onApply={handleRelinkMedia}
+    onSkip={() => setMissingMediaPaths([])}
+  />
+)}
+
+{templatesModalMode && (
+  <ProjectTemplatesModal
+    mode={templatesModalMode}
+    currentSettings={getTemplateSettings(getProjectData())}
+    onUseTemplate={handleNewFromTemplate}
+    onClose={() => setTemplatesModalMode(null)}
+  />
+)}
+
+{showPackageModal && (
+  <PackageProjectModal
+    defaultName={projectPath ? stem(projectPath) : 'Untitled'}
+    hasTrimmedClips={sequences.some(sequence =>
+      sequence.mediaItems.some(item => item.type === 'video' && (item.clips?.length ?? 0) > 0)
+    )}
+    onPackage={handlePackageProject}
+    onClose={() => setShowPackageModal(false)}
+  />
+)}
+{renderFailure && (
+  <RenderFailureModal
+    error={renderFailure.error}
+    skippedCount={renderFailure.skippedItemIds.length}
+    onSkip={handleSkipFailedItem}
+    onGoToItem={handleGoToFailedItem}
+    onClose={() => setRenderFailure(null)}
+  />
+)}
 {showResolutionModal && (
   <ResolutionModal
     suggestedResolution={getSuggestedResolution()}
+    selectedFrameRate={targetFrameRate}
+    sourceFrameRate={getDominantFrameRate(mediaItems)}
     onConfirm={handleResolutionConfirm}
     onCancel={() => setShowResolutionModal(false)}
   />
@@ -984,9 +1606,34 @@ const mergeVideoWithAudio = async (
       {showFinalizationWindow && combinedVideoPath && projectPath && (
   <FinalizationWindow
     combinedVideoPath={combinedVideoPath}
-    projectPath={projectPath}
+    audioTracks={audioTracks}
+    audioFiles={audioFiles}
+    videoDuckingPercent={videoDuckingPercent}
+    hasUnsavedChanges={hasUnsavedChanges}
+    canUndo={projectHistory.canUndo}
+    canRedo={projectHistory.canRedo}
+    onAudioChange={updateDocument}
+    onUndo={projectHistory.undo}
+    onRedo={projectHistory.redo}
+    onSave={handleSaveProject}
     onClose={handleCloseFinalization}
-    onExport={handleFinalExport}
+    onExport={() => setExportSettingsMode('export')}
+  />
+)}
+{showRenderQueue && (
+  <RenderQueueWindow
+    queue={renderQueue}
+    onAddCurrent={projectPath && mediaItems.length > 0 ? () => setExportSettingsMode('queue') : null}
+    onClose={() => setShowRenderQueue(false)}
+  />
+)}
+{exportSettingsMode && (
+  <ExportSettingsModal
+    outputFormat={outputFormat}
+    exportSettings={exportSettings}
+    onExport={exportSettingsMode === 'export' ? handleExportSettingsConfirm : undefined}
+    onQueue={handleAddToQueue}
+    onCancel={() => setExportSettingsMode(null)}
   />
 )}
     </div>
@@ -3,6 +3,7 @@
 import { open } from '@tauri-apps/plugin-dialog';
 import { convertFileSrc } from '@tauri-apps/api/core';
 import { useState, useRef } from 'react';
+import { basename } from '../utils/paths';
 
 export interface AudioItem {
   id: string;
@@ -40,7 +41,7 @@ export default function AudioFileList({
       const files = Array.isArray(selected) ? selected : [selected];
       const newItems: AudioItem[] = files.map(filepath => ({
         id: `audio_${Date.now()}_${Math.random()}`,
-        filename: filepath.split('\\').pop()?.split('/').pop() || 'Unknown',
+        filename: basename(filepath) || 'Unknown',
         filepath
       }));
 
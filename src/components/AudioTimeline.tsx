@@ -19,7 +19,8 @@ interface AudioTimelineProps {
   totalDuration: number;
   currentTime: number;
   audioTracks: AudioTrack[];
-  onAudioTracksChange: (tracks: AudioTrack[]) => void;
+  // coalesceKey groups continuous edits (drags, slider moves) into one undo step
+  onAudioTracksChange: (tracks: AudioTrack[], coalesceKey?: string) => void;
 }
 
 export default function AudioTimeline({
@@ -114,7 +115,7 @@ export default function AudioTimeline({
 
       // Apply auto-bump
       const updatedTracks = handleTrackMove(trackId, newStartTime);
-      onAudioTracksChange(updatedTracks);
+      onAudioTracksChange(updatedTracks, `move:${trackId}`);
     };
 
     const handleMouseUp = () => {
@@ -156,7 +157,7 @@ export default function AudioTimeline({
           t.id === trackId ? { ...t, clipStart: newClipStart } : t
         );
         
-        onAudioTracksChange(finalTracks);
+        onAudioTracksChange(finalTracks, `trim-start:${trackId}`);
       }
     };
 
@@ -191,7 +192,7 @@ export default function AudioTimeline({
         const updatedTracks = audioTracks.map(t =>
           t.id === trackId ? { ...t, clipEnd: newClipEnd } : t
         );
-        onAudioTracksChange(updatedTracks);
+        onAudioTracksChange(updatedTracks, `trim-end:${trackId}`);
       }
     };
 
@@ -225,7 +226,7 @@ export default function AudioTimeline({
       const updatedTracks = audioTracks.map(t =>
         t.id === trackId ? { ...t, fadeInDuration: newFadeIn } : t
       );
-      onAudioTracksChange(updatedTracks);
+      onAudioTracksChange(updatedTracks, `fade-in:${trackId}`);
     };
 
     const handleMouseUp = () => {
@@ -258,7 +259,7 @@ export default function AudioTimeline({
       const updatedTracks = audioTracks.map(t =>
         t.id === trackId ? { ...t, fadeOutDuration: newFadeOut } : t
       );
-      onAudioTracksChange(updatedTracks);
+      onAudioTracksChange(updatedTracks, `fade-out:${trackId}`);
     };
 
     const handleMouseUp = () => {
@@ -523,7 +524,7 @@ export default function AudioTimeline({
                       const updatedTracks = audioTracks.map(t =>
                         t.id === selectedTrackId ? { ...t, volume: newVolume } : t
                       );
-                      onAudioTracksChange(updatedTracks);
+                      onAudioTracksChange(updatedTracks, `volume:${selectedTrackId}`);
                     }}
                     className="flex-1"
                   />
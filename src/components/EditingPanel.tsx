@@ -1,19 +1,31 @@
 // src/components/EditingPanel.tsx
 
 import { useState, useRef, useEffect } from 'react';
-import { MediaItem, ClipRange } from '../types';
+import { MediaItem, ClipRange, CropPosition, FramingMode, MotionRect, PhotoMotion, PhotoMotionType } from '../types';
 import { convertFileSrc } from '@tauri-apps/api/core';
+import { MIN_MOTION_SIZE, PHOTO_MOTION_TYPES, clampMotionRect, getMotionRects, getPresetRects } from '../utils/photoMotion';
+import { CENTERED_CROP, FRAMING_MODES, getFramingLabel, getItemFraming } from '../utils/framing';
+import { getOrientationStyle } from '../utils/orientation';
+import { CLIP_SPEEDS, formatSpeed, getClipDuration, getClipSpeed, isClipAudible } from '../utils/timeline';
 
 interface EditingPanelProps {
   selectedItem: MediaItem | null;
   aspectRatio: string;
+  defaultFraming: FramingMode;
   onClipsChange: (clips: ClipRange[]) => void;
+  onMotionChange: (motion: PhotoMotion | undefined) => void;
+  onFramingChange: (framing: FramingMode | undefined, cropPosition: CropPosition | undefined) => void;
 }
 
+type MotionFrame = 'start' | 'end';
+
 export default function EditingPanel({ 
   selectedItem, 
   aspectRatio,
-  onClipsChange
+  defaultFraming,
+  onClipsChange,
+  onMotionChange,
+  onFramingChange
 }: EditingPanelProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
@@ -27,6 +39,22 @@ export default function EditingPanel({
   const [draggingClip, setDraggingClip] = useState<{id: string, type: 'move' | 'resize-left' | 'resize-right'} | null>(null);
   const [isPreviewingClips, setIsPreviewingClips] = useState(false);
   const [currentPreviewClipIndex, setCurrentPreviewClipIndex] = useState(0);
+  const imageRef = useRef<HTMLImageElement>(null);
+  // The output-shaped box the video or photo is shown in
+  const mediaFrameRef = useRef<HTMLDivElement>(null);
+  // Start/end framing while one of them is dragged; saved to the item on mouse up
+  const [motionDraft, setMotionDraft] = useState<{ start: MotionRect; end: MotionRect } | null>(null);
+  const [draggingFrame, setDraggingFrame] = useState<{ frame: MotionFrame; offsetX: number; offsetY: number } | null>(null);
+  // Crop position while the picture is dragged in fill mode; saved on mouse up
+  const [cropDraft, setCropDraft] = useState<CropPosition | null>(null);
+  const [draggingCrop, setDraggingCrop] = useState<{
+    startX: number;
+    startY: number;
+    from: CropPosition;
+    // How far the cropped picture reaches past the frame, in screen pixels
+    overflowX: number;
+    overflowY: number;
+  } | null>(null);
 
   useEffect(() => {
     if (selectedItem?.type === 'video') {
@@ -45,20 +73,8 @@ export default function EditingPanel({
       setIsPreviewingClips(false);
       setCurrentPreviewClipIndex(0);
       
-      // Load image
-      const loadImage = async () => {
-        try {
-          const { invoke } = await import('@tauri-apps/api/core');
-          const base64Image = await invoke<string>('read_image_as_base64', { 
-            imagePath: selectedItem.filepath 
-          });
-          setImageSrc(base64Image);
-        } catch (error) {
-          console.error('Error loading image:', error);
-          setImageSrc('');
-        }
-      };
-      loadImage();
+      // Load image through the asset protocol
+      setImageSrc(convertFileSrc(selectedItem.filepath));
     } else {
       setVideoSrc('');
       setImageSrc('');
@@ -69,6 +85,13 @@ export default function EditingPanel({
     }
   }, [selectedItem?.id]);
 
+  // Keep local clips in sync when they change outside the panel (e.g. undo/redo)
+  useEffect(() => {
+    if (selectedItem?.type === 'video' && !draggingClip) {
+      setClips(selectedItem.clips || []);
+    }
+  }, [selectedItem?.clips]);
+
   const handleContextMenu = (e: React.MouseEvent) => {
     e.preventDefault();
     if (selectedItem?.type === 'video') {
@@ -123,6 +146,19 @@ export default function EditingPanel({
     onClipsChange(updatedClips);
   };
 
+  const handleClipSpeedChange = (clipId: string, speed: number) => {
+    const updatedClips = clips.map(c => c.id === clipId ? { ...c, speed: speed === 1 ? undefined : speed } : c);
+    setClips(updatedClips);
+    onClipsChange(updatedClips);
+  };
+
+  // Clip previews play at the clip's speed; anything else plays at normal speed
+  const applyPlaybackSpeed = (clip: ClipRange | undefined) => {
+    if (!videoRef.current) return;
+    videoRef.current.playbackRate = clip ? getClipSpeed(clip) : 1;
+    videoRef.current.muted = clip ? !isClipAudible(clip) : false;
+  };
+
   const handlePlayPause = () => {
     if (!videoRef.current) return;
     if (isPlaying) {
@@ -140,6 +176,7 @@ export default function EditingPanel({
     setIsPreviewingClips(true);
     setCurrentPreviewClipIndex(0);
     videoRef.current.currentTime = clips[0].start;
+    applyPlaybackSpeed(clips[0]);
     videoRef.current.play();
     setIsPlaying(true);
   };
@@ -149,6 +186,7 @@ export default function EditingPanel({
     setIsPreviewingClips(false);
     setCurrentPreviewClipIndex(0);
     videoRef.current.pause();
+    applyPlaybackSpeed(undefined);
     setIsPlaying(false);
   };
 
@@ -168,11 +206,13 @@ export default function EditingPanel({
         if (currentPreviewClipIndex < clips.length - 1) {
           setCurrentPreviewClipIndex(currentPreviewClipIndex + 1);
           video.currentTime = clips[currentPreviewClipIndex + 1].start;
+          applyPlaybackSpeed(clips[currentPreviewClipIndex + 1]);
         } else {
           // Finished all clips
           setIsPreviewingClips(false);
           setCurrentPreviewClipIndex(0);
           video.pause();
+          applyPlaybackSpeed(undefined);
           setIsPlaying(false);
         }
       }
@@ -254,6 +294,158 @@ export default function EditingPanel({
     };
   }, [draggingClip, selectedItem?.duration, onClipsChange, clips]);
 
+  const motionRects = motionDraft ?? (selectedItem ? getMotionRects(selectedItem) : null);
+  const isCustomMotion = selectedItem?.motion?.type === 'custom';
+
+  const handleMotionTypeChange = (type: PhotoMotionType) => {
+    if (type === 'none') {
+      onMotionChange(undefined);
+    } else if (type === 'custom') {
+      // Start from what the photo does now, so a preset can be fine-tuned
+      const rects = motionRects ?? getPresetRects('zoom-in');
+      onMotionChange({ type: 'custom', start: rects.start, end: rects.end });
+    } else {
+      onMotionChange({ type });
+    }
+  };
+
+  const handleMotionSizeChange = (frame: MotionFrame, size: number) => {
+    if (!motionRects) return;
+    // Zooming keeps the frame centred where it was
+    const rect = motionRects[frame];
+    const resized = clampMotionRect({
+      x: rect.x + (rect.size - size) / 2,
+      y: rect.y + (rect.size - size) / 2,
+      size
+    });
+    onMotionChange({ type: 'custom', ...motionRects, [frame]: resized });
+  };
+
+  const handleSwapMotion = () => {
+    if (!motionRects) return;
+    onMotionChange({ type: 'custom', start: motionRects.end, end: motionRects.start });
+  };
+
+  // Where the pointer is in the image frame, as fractions of it
+  const getFramePoint = (e: { clientX: number; clientY: number }) => {
+    const bounds = mediaFrameRef.current!.getBoundingClientRect();
+    return {
+      x: (e.clientX - bounds.left) / bounds.width,
+      y: (e.clientY - bounds.top) / bounds.height
+    };
+  };
+
+  const handleMotionFrameMouseDown = (e: React.MouseEvent, frame: MotionFrame) => {
+    if (!isCustomMotion || !motionRects || !mediaFrameRef.current) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const point = getFramePoint(e);
+    setMotionDraft(motionRects);
+    setDraggingFrame({
+      frame,
+      offsetX: point.x - motionRects[frame].x,
+      offsetY: point.y - motionRects[frame].y
+    });
+  };
+
+  useEffect(() => {
+    if (!draggingFrame || !mediaFrameRef.current) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const point = getFramePoint(e);
+      setMotionDraft(prev => prev && {
+        ...prev,
+        [draggingFrame.frame]: clampMotionRect({
+          ...prev[draggingFrame.frame],
+          x: point.x - draggingFrame.offsetX,
+          y: point.y - draggingFrame.offsetY
+        })
+      });
+    };
+
+    const handleMouseUp = () => {
+      setDraggingFrame(null);
+      if (motionDraft) {
+        onMotionChange({ type: 'custom', start: motionDraft.start, end: motionDraft.end });
+      }
+      setMotionDraft(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [draggingFrame, onMotionChange, motionDraft]);
+
+  const framing = selectedItem ? getItemFraming(selectedItem, defaultFraming) : null;
+  const cropPosition = cropDraft ?? framing?.cropPosition ?? CENTERED_CROP;
+
+  // Shows the item the way the render frames and turns it
+  const framedMediaStyle: React.CSSProperties = {
+    ...(framing?.mode === 'fill'
+      ? { objectFit: 'cover', objectPosition: `${cropPosition.x * 100}% ${cropPosition.y * 100}%` }
+      : { objectFit: 'contain' }),
+    ...getOrientationStyle(selectedItem?.orientation, aspectRatio, framing?.mode === 'fill')
+  };
+
+  const handleFramingModeChange = (value: string) => {
+    onFramingChange(value === 'default' ? undefined : value as FramingMode, selectedItem?.cropPosition);
+  };
+
+  const handleCropMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || framing?.mode !== 'fill' || !mediaFrameRef.current) return;
+
+    const [sourceWidth, sourceHeight] = selectedItem?.type === 'video'
+      ? [videoRef.current?.videoWidth ?? 0, videoRef.current?.videoHeight ?? 0]
+      : [imageRef.current?.naturalWidth ?? 0, imageRef.current?.naturalHeight ?? 0];
+    if (!sourceWidth || !sourceHeight) return;
+
+    e.preventDefault();
+    const bounds = mediaFrameRef.current.getBoundingClientRect();
+    const scale = Math.max(bounds.width / sourceWidth, bounds.height / sourceHeight);
+    setCropDraft(cropPosition);
+    setDraggingCrop({
+      startX: e.clientX,
+      startY: e.clientY,
+      from: cropPosition,
+      overflowX: sourceWidth * scale - bounds.width,
+      overflowY: sourceHeight * scale - bounds.height
+    });
+  };
+
+  useEffect(() => {
+    if (!draggingCrop) return;
+
+    // Dragging moves the picture, so the crop moves the opposite way
+    const handleMouseMove = (e: MouseEvent) => {
+      const clamp = (value: number) => Math.min(1, Math.max(0, value));
+      const { from, overflowX, overflowY } = draggingCrop;
+      setCropDraft({
+        x: overflowX > 1 ? clamp(from.x - (e.clientX - draggingCrop.startX) / overflowX) : from.x,
+        y: overflowY > 1 ? clamp(from.y - (e.clientY - draggingCrop.startY) / overflowY) : from.y
+      });
+    };
+
+    const handleMouseUp = () => {
+      setDraggingCrop(null);
+      if (cropDraft) {
+        onFramingChange(selectedItem?.framing, cropDraft);
+      }
+      setCropDraft(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [draggingCrop, cropDraft, selectedItem?.framing, onFramingChange]);
+
   // Close context menu on click outside
   useEffect(() => {
     const handleClick = () => setContextMenu(null);
@@ -308,6 +500,23 @@ export default function EditingPanel({
     );
   }
 
+  const framingSelect = (
+    <label className="flex items-center gap-2 text-xs font-normal">
+      <span className="text-gray-400">Framing:</span>
+      <select
+        value={selectedItem.framing ?? 'default'}
+        onChange={(e) => handleFramingModeChange(e.target.value)}
+        className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+      >
+        <option value="default">Default ({getFramingLabel(defaultFraming)})</option>
+        {FRAMING_MODES.map(mode => (
+          <option key={mode.value} value={mode.value}>{mode.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+  const isCropping = framing?.mode === 'fill';
+
   if (selectedItem.type === 'image') {
     return (
       <div className="h-full bg-gray-850 border-b border-gray-700 flex flex-col min-h-0">
@@ -318,28 +527,107 @@ export default function EditingPanel({
           <div className="flex-1 flex flex-col min-h-0">
 <div className="flex-1 flex items-center justify-center bg-black min-h-0">
   <div 
-    className="relative bg-black"
+    ref={mediaFrameRef}
+    onMouseDown={handleCropMouseDown}
+    className={`relative bg-black overflow-hidden ${isCropping ? 'cursor-grab' : ''}`}
     style={{
       aspectRatio: aspectRatio.replace(':', '/'),
       maxWidth: '100%',
       maxHeight: '100%'
     }}
   >
+    {imageSrc && framing?.mode === 'blur' && (
+      <div className="absolute inset-0" style={getOrientationStyle(selectedItem.orientation, aspectRatio, true)}>
+        <img src={imageSrc} alt="" className="w-full h-full object-cover blur-xl scale-110" />
+      </div>
+    )}
     {imageSrc ? (
       <img 
+        ref={imageRef}
         src={imageSrc} 
         alt={selectedItem.filename}
-        className="w-full h-full object-contain"
+        className="relative w-full h-full"
+        style={framedMediaStyle}
+        draggable={false}
       />
     ) : (
       <div className="text-gray-500">Loading image...</div>
     )}
+    {motionRects && (['start', 'end'] as MotionFrame[]).map(frame => {
+      const rect = motionRects[frame];
+      return (
+        <div
+          key={frame}
+          onMouseDown={(e) => handleMotionFrameMouseDown(e, frame)}
+          className={`absolute border-2 ${
+            frame === 'start' ? 'border-green-400' : 'border-red-400'
+          } ${isCustomMotion ? 'cursor-move' : 'border-dashed pointer-events-none'}`}
+          style={{
+            left: `${rect.x * 100}%`,
+            top: `${rect.y * 100}%`,
+            width: `${rect.size * 100}%`,
+            height: `${rect.size * 100}%`
+          }}
+        >
+          <span className={`absolute top-0 ${frame === 'start' ? 'left-0' : 'right-0'} px-1 text-xs text-black ${
+            frame === 'start' ? 'bg-green-400' : 'bg-red-400'
+          }`}>
+            {frame === 'start' ? 'Start' : 'End'}
+          </span>
+        </div>
+      );
+    })}
   </div>
 </div>
           </div>
         </div>
-        <div className="p-2 text-center text-xs text-gray-500 border-t border-gray-700 flex-shrink-0">
-          Images don't require clip selection - adjust duration in media list
+        <div className="p-2 border-t border-gray-700 flex-shrink-0 flex items-center gap-3 text-xs">
+          {framingSelect}
+          <label className="flex items-center gap-2">
+            <span className="text-gray-400">Motion:</span>
+            <select
+              value={selectedItem.motion?.type ?? 'none'}
+              onChange={(e) => handleMotionTypeChange(e.target.value as PhotoMotionType)}
+              className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+            >
+              {PHOTO_MOTION_TYPES.map(entry => (
+                <option key={entry.value} value={entry.value}>{entry.label}</option>
+              ))}
+            </select>
+          </label>
+          {isCustomMotion && motionRects && (
+            <>
+              {(['start', 'end'] as MotionFrame[]).map(frame => (
+                <label key={frame} className="flex items-center gap-2">
+                  <span className={frame === 'start' ? 'text-green-400' : 'text-red-400'}>
+                    {frame === 'start' ? 'Start' : 'End'} zoom
+                  </span>
+                  <input
+                    type="range"
+                    min={1}
+                    max={1 / MIN_MOTION_SIZE}
+                    step={0.05}
+                    value={1 / motionRects[frame].size}
+                    onChange={(e) => handleMotionSizeChange(frame, 1 / parseFloat(e.target.value))}
+                    className="w-24"
+                  />
+                </label>
+              ))}
+              <button
+                onClick={handleSwapMotion}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded"
+              >
+                Swap
+              </button>
+            </>
+          )}
+          <span className="flex-1 text-right text-gray-500">
+            {isCustomMotion
+              ? 'Drag the Start and End frames over the photo'
+              : isCropping
+              ? 'Drag the photo to choose what stays in frame'
+              : 'Images don\'t require clip selection - adjust duration in media list'}
+          </span>
         </div>
       </div>
     );
@@ -354,11 +642,17 @@ export default function EditingPanel({
         <span className="font-semibold text-sm">
           Editing Panel - {clips.length} clip{clips.length !== 1 ? 's' : ''} selected
         </span>
-        {pendingStart !== null && (
-          <span className="text-xs text-orange-400">
-            Start marked at {formatTime(pendingStart)} - right-click to set End
-          </span>
-        )}
+        <div className="flex items-center gap-3">
+          {pendingStart !== null && (
+            <span className="text-xs text-orange-400">
+              Start marked at {formatTime(pendingStart)} - right-click to set End
+            </span>
+          )}
+          {isCropping && (
+            <span className="text-xs text-gray-400">Drag the video to choose what stays in frame</span>
+          )}
+          {framingSelect}
+        </div>
       </div>
       
       <div className="flex-1 flex min-h-0">
@@ -369,7 +663,9 @@ export default function EditingPanel({
   onContextMenu={handleContextMenu}
 >
   <div 
-    className="relative bg-black"
+    ref={mediaFrameRef}
+    onMouseDown={handleCropMouseDown}
+    className={`relative bg-black overflow-hidden ${isCropping ? 'cursor-grab' : ''}`}
     style={{
       aspectRatio: aspectRatio.replace(':', '/'),
       maxWidth: '100%',
@@ -379,7 +675,8 @@ export default function EditingPanel({
     {videoSrc ? (
       <video
         ref={videoRef}
-        className="w-full h-full object-contain"
+        className="w-full h-full"
+        style={framedMediaStyle}
         src={videoSrc}
         onTimeUpdate={() => setCurrentTime(videoRef.current?.currentTime || 0)}
         onPlay={() => setIsPlaying(true)}
@@ -407,14 +704,20 @@ export default function EditingPanel({
                 {clips.map(clip => {
                   const left = (clip.start / duration) * 100;
                   const width = ((clip.end - clip.start) / duration) * 100;
+                  const speed = getClipSpeed(clip);
                   return (
                     <div
                       key={clip.id}
                       className="absolute h-full bg-blue-500 bg-opacity-60 rounded cursor-move border-2 border-blue-400 hover:bg-opacity-80 transition-opacity"
                       style={{ left: `${left}%`, width: `${width}%` }}
                       onMouseDown={(e) => handleClipMouseDown(e, clip.id, 'move')}
-                      title={`Clip: ${formatTime(clip.start)} - ${formatTime(clip.end)}`}
+                      title={`Clip: ${formatTime(clip.start)} - ${formatTime(clip.end)}${speed !== 1 ? ` at ${formatSpeed(speed)}` : ''}`}
                     >
+                      {speed !== 1 && (
+                        <span className="absolute inset-0 flex items-center justify-center text-[10px] font-semibold text-white pointer-events-none overflow-hidden">
+                          {formatSpeed(speed)}
+                        </span>
+                      )}
                       {/* Left resize handle */}
                       <div
                         className="absolute left-0 top-0 bottom-0 w-2 bg-blue-600 cursor-ew-resize hover:bg-blue-400"
@@ -520,7 +823,21 @@ export default function EditingPanel({
                     {formatTime(clip.start)} - {formatTime(clip.end)}
                   </div>
                   <div className="text-gray-500 text-[10px]">
-                    Duration: {formatTime(clip.end - clip.start)}
+                    Duration: {formatTime(getClipDuration(clip))}
+                    {getClipSpeed(clip) !== 1 && ` (${formatTime(clip.end - clip.start)} of footage)`}
+                  </div>
+                  <div className="flex items-center gap-1 mt-1">
+                    <span className="text-gray-400">Speed:</span>
+                    <select
+                      value={getClipSpeed(clip)}
+                      onChange={(e) => handleClipSpeedChange(clip.id, Number(e.target.value))}
+                      className="bg-gray-600 rounded px-1 py-0.5 text-xs"
+                    >
+                      {CLIP_SPEEDS.map(speed => (
+                        <option key={speed} value={speed}>{formatSpeed(speed)}</option>
+                      ))}
+                    </select>
+                    {!isClipAudible(clip) && <span className="text-gray-500 text-[10px]">muted</span>}
                   </div>
                 </div>
               ))
@@ -0,0 +1,190 @@
+// src/components/ExportSettingsModal.tsx
+import { useState } from 'react';
+import {
+  EXPORT_CODECS,
+  ExportSettings,
+  OUTPUT_FORMATS,
+  QUALITY_PRESETS,
+  RateControl,
+  QualityPreset,
+  ExportCodec,
+  fitExportSettings,
+  getFormatCodecs,
+  getOutputExtension,
+  withCodec
+} from '../utils/exportProfiles';
+
+interface ExportSettingsModalProps {
+  outputFormat: string;
+  exportSettings: ExportSettings;
+  // Each action gets its own button; at least one should be given
+  onExport?: (outputFormat: string, exportSettings: ExportSettings) => void;
+  onQueue?: (outputFormat: string, exportSettings: ExportSettings) => void;
+  onCancel: () => void;
+}
+
+export default function ExportSettingsModal({
+  outputFormat,
+  exportSettings,
+  onExport,
+  onQueue,
+  onCancel
+}: ExportSettingsModalProps) {
+  const [format, setFormat] = useState(outputFormat);
+  const [settings, setSettings] = useState(() => fitExportSettings(outputFormat, exportSettings));
+
+  const profile = EXPORT_CODECS[settings.codec];
+  const [minCrf, maxCrf] = profile.crfRange;
+
+  const handleFormatChange = (value: string) => {
+    setFormat(value);
+    setSettings(current => fitExportSettings(value, current));
+  };
+
+  const handleConfirm = (action: (outputFormat: string, exportSettings: ExportSettings) => void) => {
+    if (profile.supportsRateControl) {
+      if (settings.rateControl === 'crf' && !(settings.crf >= minCrf && settings.crf <= maxCrf)) {
+        alert(`CRF must be between ${minCrf} and ${maxCrf} for ${profile.label}`);
+        return;
+      }
+      if (settings.rateControl === 'bitrate' && !(settings.bitrateKbps > 0)) {
+        alert('Please enter a bitrate');
+        return;
+      }
+    }
+    action(format, settings);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-[500px] flex flex-col">
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold">Export Settings</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            The final video is saved as <span className="text-blue-400">.{getOutputExtension(format)}</span>
+          </p>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm">
+          <div className="grid grid-cols-[100px_1fr] items-center gap-3">
+            <label htmlFor="export-format" className="text-gray-300">Format</label>
+            <select
+              id="export-format"
+              value={format}
+              onChange={(e) => handleFormatChange(e.target.value)}
+              className="px-2 py-1 bg-gray-900 border border-gray-600 rounded"
+            >
+              {OUTPUT_FORMATS.map(entry => (
+                <option key={entry.value} value={entry.value}>{entry.value}</option>
+              ))}
+            </select>
+
+            <label htmlFor="export-codec" className="text-gray-300">Video Codec</label>
+            <select
+              id="export-codec"
+              value={settings.codec}
+              onChange={(e) => setSettings(current => withCodec(current, e.target.value as ExportCodec))}
+              className="px-2 py-1 bg-gray-900 border border-gray-600 rounded"
+            >
+              {getFormatCodecs(format).map(codec => (
+                <option key={codec} value={codec}>{EXPORT_CODECS[codec].label}</option>
+              ))}
+            </select>
+
+            <label htmlFor="export-preset" className="text-gray-300">Preset</label>
+            <select
+              id="export-preset"
+              value={settings.preset}
+              onChange={(e) => setSettings(current => ({ ...current, preset: e.target.value as QualityPreset }))}
+              className="px-2 py-1 bg-gray-900 border border-gray-600 rounded"
+            >
+              {QUALITY_PRESETS.map(preset => (
+                <option key={preset.value} value={preset.value}>{preset.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {profile.supportsRateControl ? (
+            <div className="space-y-2">
+              {(['crf', 'bitrate'] as RateControl[]).map(rateControl => (
+                <label key={rateControl} className="flex items-center gap-3 p-3 bg-gray-700 hover:bg-gray-600 rounded cursor-pointer">
+                  <input
+                    type="radio"
+                    name="rate-control"
+                    checked={settings.rateControl === rateControl}
+                    onChange={() => setSettings(current => ({ ...current, rateControl }))}
+                    className="w-4 h-4"
+                  />
+                  {rateControl === 'crf' ? (
+                    <>
+                      <span className="flex-1">Constant quality (CRF)</span>
+                      <input
+                        type="number"
+                        value={settings.crf}
+                        min={minCrf}
+                        max={maxCrf}
+                        onChange={(e) => setSettings(current => ({ ...current, crf: Number(e.target.value) }))}
+                        disabled={settings.rateControl !== 'crf'}
+                        className="w-20 px-2 py-1 bg-gray-900 border border-gray-600 rounded disabled:opacity-50"
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <span className="flex-1">Target bitrate</span>
+                      <input
+                        type="number"
+                        value={settings.bitrateKbps}
+                        min={100}
+                        step={500}
+                        onChange={(e) => setSettings(current => ({ ...current, bitrateKbps: Number(e.target.value) }))}
+                        disabled={settings.rateControl !== 'bitrate'}
+                        className="w-24 px-2 py-1 bg-gray-900 border border-gray-600 rounded disabled:opacity-50"
+                      />
+                      <span className="text-gray-400">kbps</span>
+                    </>
+                  )}
+                </label>
+              ))}
+              {settings.rateControl === 'crf' && (
+                <p className="text-xs text-gray-400">
+                  Lower is better quality and larger files ({minCrf}–{maxCrf}, default {profile.defaultCrf}).
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400">
+              ProRes quality follows the preset: Fast is ProRes LT, Balanced is standard 422 and Best quality is 422 HQ.
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+          >
+            Cancel
+          </button>
+          {onQueue && (
+            <button
+              onClick={() => handleConfirm(onQueue)}
+              className={onExport
+                ? 'px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm'
+                : 'px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold'}
+            >
+              Add to Queue
+            </button>
+          )}
+          {onExport && (
+            <button
+              onClick={() => handleConfirm(onExport)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold"
+            >
+              Export
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
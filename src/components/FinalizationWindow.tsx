@@ -2,31 +2,50 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { convertFileSrc } from '@tauri-apps/api/core';
-import { writeTextFile } from '@tauri-apps/plugin-fs';
 import AudioTimeline, { AudioTrack } from './AudioTimeline';
 import AudioFileList, { AudioItem } from './AudioFileList';
+import { ProjectData, Sequence } from '../utils/projectFile';
+import { HistoryOptions } from '../hooks/useHistory';
 
+// Tracks and ducking belong to the active sequence, the audio library to the project
+type AudioChanges = Partial<Pick<Sequence, 'audioTracks' | 'videoDuckingPercent'> & Pick<ProjectData, 'audioFiles'>>;
+
+// Audio state is owned by App so a single project save and undo history cover it
 interface FinalizationWindowProps {
   combinedVideoPath: string;
-  projectPath: string;
+  audioTracks: AudioTrack[];
+  audioFiles: AudioItem[];
+  videoDuckingPercent: number;
+  hasUnsavedChanges: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  onAudioChange: (changes: AudioChanges, options?: HistoryOptions) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSave: () => Promise<boolean>;
   onClose: () => void;
-  onExport: (audioTracks: AudioTrack[], videoDuckingPercent: number) => void;
+  onExport: () => void;
 }
 
 export default function FinalizationWindow({
   combinedVideoPath,
-  projectPath,
+  audioTracks: timelineTracks,
+  audioFiles,
+  videoDuckingPercent,
+  hasUnsavedChanges,
+  canUndo,
+  canRedo,
+  onAudioChange,
+  onUndo,
+  onRedo,
+  onSave,
   onClose,
   onExport
 }: FinalizationWindowProps) {
-  const [audioFiles, setAudioFiles] = useState<AudioItem[]>([]);
-  const [timelineTracks, setTimelineTracks] = useState<AudioTrack[]>([]);
   const [currentTime, setCurrentTime] = useState(0);
   const [totalDuration, setTotalDuration] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [videoSrc, setVideoSrc] = useState<string>('');
-  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
-  const [videoDuckingPercent, setVideoDuckingPercent] = useState(50);
   const [isSaving, setIsSaving] = useState(false); // NEW: Add saving state
   
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -42,31 +61,6 @@ export default function FinalizationWindow({
     loadVideo();
   }, [combinedVideoPath]);
 
-  useEffect(() => {
-    const loadAudioTracks = async () => {
-      try {
-        const { readTextFile } = await import('@tauri-apps/plugin-fs');
-        const content = await readTextFile(projectPath);
-        const projectData = JSON.parse(content);
-        
-        if (projectData.audioTracks) {
-          setTimelineTracks(projectData.audioTracks);
-        }
-        
-        if (projectData.audioFiles) {
-          setAudioFiles(projectData.audioFiles);
-        }
-        
-        if (projectData.videoDuckingPercent !== undefined) {
-          setVideoDuckingPercent(projectData.videoDuckingPercent);
-        }
-      } catch (error) {
-        console.error('Error loading audio tracks:', error);
-      }
-    };
-    loadAudioTracks();
-  }, [projectPath]);
-
   useEffect(() => {
     const loadAudioElements = async () => {
       audioElementsRef.current.forEach(audio => audio.pause());
@@ -160,30 +154,10 @@ export default function FinalizationWindow({
     };
   }, []);
 
-  useEffect(() => {
-    if (timelineTracks.length > 0) {
-      setHasUnsavedChanges(true);
-    }
-  }, [timelineTracks, videoDuckingPercent]);
-
-  // UPDATED: Add loading state to save function
   const handleSaveProject = async () => {
     setIsSaving(true);
     try {
-      const { readTextFile } = await import('@tauri-apps/plugin-fs');
-      const content = await readTextFile(projectPath);
-      const projectData = JSON.parse(content);
-      
-      projectData.audioTracks = timelineTracks;
-      projectData.audioFiles = audioFiles;
-      projectData.videoDuckingPercent = videoDuckingPercent;
-      
-      await writeTextFile(projectPath, JSON.stringify(projectData, null, 2));
-      setHasUnsavedChanges(false);
-      alert('Project saved with audio tracks!');
-    } catch (error) {
-      console.error('Error saving project:', error);
-      alert(`Failed to save: ${error}`);
+      await onSave();
     } finally {
       setIsSaving(false);
     }
@@ -231,6 +205,24 @@ export default function FinalizationWindow({
             ← Back to Editing
           </button>
           <span className="text-lg font-semibold">Finalization & Export</span>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Undo (Ctrl+Z)"
+            >
+              ↶
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              ↷
+            </button>
+          </div>
           {hasUnsavedChanges && (
             <span className="text-orange-400 text-sm">● Unsaved changes</span>
           )}
@@ -252,7 +244,7 @@ export default function FinalizationWindow({
             )}
           </button>
           <button
-            onClick={() => onExport(timelineTracks, videoDuckingPercent)}
+            onClick={onExport}
             className="px-4 py-1 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold"
           >
             Export Final Video
@@ -355,8 +347,7 @@ export default function FinalizationWindow({
                   value={videoDuckingPercent}
                   onChange={(e) => {
                     const val = Math.max(0, Math.min(100, Number(e.target.value)));
-                    setVideoDuckingPercent(val);
-                    setHasUnsavedChanges(true);
+                    onAudioChange({ videoDuckingPercent: val }, { coalesceKey: 'videoDucking' });
                   }}
                   className="w-16 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-center"
                 />
@@ -370,7 +361,7 @@ export default function FinalizationWindow({
         <div className="w-80 bg-gray-850 border-l border-gray-700 flex flex-col">
           <AudioFileList
             audioItems={audioFiles}
-            onAudioItemsChange={setAudioFiles}
+            onAudioItemsChange={(items) => onAudioChange({ audioFiles: items })}
             onAddToTimeline={async (audioItem) => {
               const audio = new Audio();
               const converted = convertFileSrc(audioItem.filepath);
@@ -389,8 +380,7 @@ export default function FinalizationWindow({
                   fadeInDuration: 0,
                   fadeOutDuration: 0
                 };
-                setTimelineTracks([...timelineTracks, newTrack]);
-                setHasUnsavedChanges(true);
+                onAudioChange({ audioTracks: [...timelineTracks, newTrack] });
               });
             }}
           />
@@ -404,9 +394,8 @@ export default function FinalizationWindow({
             totalDuration={totalDuration}
             currentTime={currentTime}
             audioTracks={timelineTracks}
-            onAudioTracksChange={(tracks) => {
-              setTimelineTracks(tracks);
-              setHasUnsavedChanges(true);
+            onAudioTracksChange={(tracks, coalesceKey) => {
+              onAudioChange({ audioTracks: tracks }, { coalesceKey });
             }}
           />
         </div>
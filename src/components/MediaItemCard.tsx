@@ -1,16 +1,33 @@
 // src/components/MediaItemCard.tsx
 
-import { MediaItem } from '../types';
+import { MediaItem, Orientation, Transition, TransitionType } from '../types';
+import {
+  DEFAULT_TRANSITION,
+  MAX_TRANSITION_DURATION,
+  MIN_TRANSITION_DURATION,
+  TRANSITION_TYPES,
+  getClipDuration,
+  getTransitionLabel
+} from '../utils/timeline';
+import { flipHorizontally, getOrientationStyle, isUpright, rotateClockwise } from '../utils/orientation';
 
 interface MediaItemCardProps {
   item: MediaItem;
+  thumbnail?: string;
   isSelected: boolean;
   isDragging: boolean;
   defaultPhotoDuration: number;
+  defaultTransition: Transition;
+  // The last item has no transition after it
+  hasNextItem: boolean;
   onSelect: (id: string) => void;
   onCaptionChange: (id: string, caption: string) => void;
   onShowCaptionToggle: (id: string) => void;
   onPhotoDurationChange: (id: string, duration: number | undefined) => void;
+  // undefined goes back to the project default
+  onTransitionChange: (id: string, transition: Transition | undefined) => void;
+  // undefined clears the user's rotation and flip
+  onOrientationChange: (id: string, orientation: Orientation | undefined) => void;
   onDelete: (id: string) => void;
   onExclude: (id: string) => void;
   onDragHandleMouseDown: (e: React.MouseEvent, id: string) => void;
@@ -18,13 +35,18 @@ interface MediaItemCardProps {
 
 export default function MediaItemCard({
   item,
+  thumbnail,
   isSelected,
   isDragging,
   defaultPhotoDuration,
+  defaultTransition,
+  hasNextItem,
   onSelect,
   onCaptionChange,
   onShowCaptionToggle,
   onPhotoDurationChange,
+  onTransitionChange,
+  onOrientationChange,
   onDelete,
   onExclude,
   onDragHandleMouseDown
@@ -49,12 +71,31 @@ export default function MediaItemCard({
       return item.duration;
     }
     
-    // Sum up clip durations
-    return item.clips.reduce((sum, clip) => sum + (clip.end - clip.start), 0);
+    // Sum up clip durations, as played at their speed
+    return item.clips.reduce((sum, clip) => sum + getClipDuration(clip), 0);
   };
 
   const editedDuration = getEditedDuration();
 
+  const defaultTransitionLabel = defaultTransition.type === 'none'
+    ? getTransitionLabel('none')
+    : `${getTransitionLabel(defaultTransition.type)} ${defaultTransition.duration}s`;
+
+  const handleTransitionTypeChange = (value: string) => {
+    if (value === 'default') {
+      onTransitionChange(item.id, undefined);
+      return;
+    }
+    // Keep the duration when switching between transition types
+    const duration = item.transition?.duration ??
+      (defaultTransition.type === 'none' ? DEFAULT_TRANSITION.duration : defaultTransition.duration);
+    onTransitionChange(item.id, { type: value as TransitionType, duration });
+  };
+
+  const handleOrientationChange = (orientation: Orientation) => {
+    onOrientationChange(item.id, isUpright(orientation) ? undefined : orientation);
+  };
+
   return (
     <div
       onClick={() => onSelect(item.id)}
@@ -85,8 +126,13 @@ export default function MediaItemCard({
         {/* Column 1: Thumbnail, Filename, Duration */}
         <div className="flex gap-2 items-center">
           <div className="w-16 h-9 bg-gray-800 rounded flex-shrink-0 overflow-hidden flex items-center justify-center">
-            {item.thumbnail ? (
-              <img src={item.thumbnail} alt={item.filename} className="w-full h-full object-cover" />
+            {thumbnail ? (
+              <img
+                src={thumbnail}
+                alt={item.filename}
+                className="w-full h-full object-cover"
+                style={getOrientationStyle(item.orientation, '16:9', true)}
+              />
             ) : (
               <div className="w-full h-full flex items-center justify-center">
                 {/* Loading spinner */}
@@ -174,6 +220,41 @@ export default function MediaItemCard({
               className="w-full px-1.5 py-0.5 text-[10px] bg-gray-800 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
             />
           )}
+          {hasNextItem && (
+            <div
+              className="flex items-center gap-1"
+              onClick={(e) => e.stopPropagation()}
+              title="Transition into the next item"
+            >
+              <span className="text-[10px] text-gray-400">→</span>
+              <select
+                value={item.transition?.type ?? 'default'}
+                onChange={(e) => handleTransitionTypeChange(e.target.value)}
+                onKeyDown={(e) => e.stopPropagation()}
+                className="flex-1 min-w-0 px-1 py-0.5 text-[10px] bg-gray-800 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
+              >
+                <option value="default">Default ({defaultTransitionLabel})</option>
+                {TRANSITION_TYPES.map(transition => (
+                  <option key={transition.value} value={transition.value}>{transition.label}</option>
+                ))}
+              </select>
+              {item.transition && item.transition.type !== 'none' && (
+                <input
+                  type="number"
+                  value={item.transition.duration}
+                  onChange={(e) => onTransitionChange(item.id, {
+                    type: item.transition!.type,
+                    duration: Math.min(MAX_TRANSITION_DURATION, Math.max(MIN_TRANSITION_DURATION, Number(e.target.value)))
+                  })}
+                  onKeyDown={(e) => e.stopPropagation()}
+                  min={MIN_TRANSITION_DURATION}
+                  max={MAX_TRANSITION_DURATION}
+                  step="0.25"
+                  className="w-12 px-1 py-0.5 text-[10px] bg-gray-800 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
+                />
+              )}
+            </div>
+          )}
         </div>
 
         {/* Column 3: Type Indicator, Exclude, and Delete */}
@@ -189,6 +270,28 @@ export default function MediaItemCard({
           }`}>
             {item.type === 'video' ? 'VID' : 'IMG'}
           </span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleOrientationChange(rotateClockwise(item.orientation));
+            }}
+            className="w-5 h-5 bg-gray-600 hover:bg-gray-500 rounded flex items-center justify-center text-white text-xs transition-colors cursor-pointer"
+            title="Rotate 90° clockwise"
+          >
+            ⟳
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleOrientationChange(flipHorizontally(item.orientation));
+            }}
+            className={`w-5 h-5 rounded flex items-center justify-center text-white text-xs transition-colors cursor-pointer ${
+              item.orientation?.flip ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-600 hover:bg-gray-500'
+            }`}
+            title="Flip horizontally"
+          >
+            ⇋
+          </button>
           <button
             onClick={(e) => {
               e.stopPropagation();
@@ -3,32 +3,78 @@
 import { useState, useRef, useEffect } from 'react';
 import { open } from '@tauri-apps/plugin-dialog';
 import { invoke } from '@tauri-apps/api/core';
-import { MediaItem } from '../types';
+import { MediaItem, Orientation, Transition } from '../types';
 import MediaItemCard from './MediaItemCard';
+import MediaPoolModal from './MediaPoolModal';
+import { MediaPoolItem } from '../utils/projectFile';
+import { HistoryOptions } from '../hooks/useHistory';
+import { useThumbnails } from '../hooks/useThumbnails';
+import { probeFrameRate } from '../utils/frameRate';
+import { probeOrientation } from '../utils/orientation';
+import { basename } from '../utils/paths';
+
+// Orientation, and for videos duration, resolution and frame rate
+// (thumbnails are loaded separately by useThumbnails)
+async function loadItemMetadata(item: MediaItem): Promise<Partial<MediaItem>> {
+  const path = item.filepath;
+  const metadata: Partial<MediaItem> = {
+    sourceOrientation: await probeOrientation(path, item.type === 'video')
+  };
+  if (item.type !== 'video') return metadata;
+
+  try {
+    // Get duration first (this usually works)
+    metadata.duration = await invoke<number>('get_video_duration', { path });
+
+    // Try to get resolution separately - if it fails, use default
+    try {
+      metadata.resolution = await invoke<string>('get_video_resolution', { path });
+    } catch (resError) {
+      console.warn('Could not get resolution for', item.filename, '- using default 1920x1080');
+      metadata.resolution = '1920x1080'; // Default resolution
+    }
+
+    metadata.frameRate = await probeFrameRate(path);
+  } catch (error) {
+    console.error('Error getting video info for', item.filename, error);
+    // Even if we fail, set some defaults so the item still loads
+    metadata.resolution = '1920x1080';
+  }
+  return metadata;
+}
 
 interface MediaListPanelProps {
   mediaItems: MediaItem[];
+  mediaPool: MediaPoolItem[];
   selectedItemId: string | null;
   defaultPhotoDuration: number;
+  defaultTransition: Transition;
   isPreviewMode: boolean;
-  onMediaItemsChange: (items: MediaItem[]) => void;
+  onMediaItemsChange: (items: MediaItem[], options?: HistoryOptions) => void;
+  // Fills in metadata of an item that's still in the list, without an undo step
+  onMediaItemLoaded: (itemId: string, metadata: Partial<MediaItem>) => void;
   onSelectItem: (id: string | null) => void;
 }
 
 export default function MediaListPanel({
   mediaItems,
+  mediaPool,
   selectedItemId,
   defaultPhotoDuration,
+  defaultTransition,
   isPreviewMode,
   onMediaItemsChange,
+  onMediaItemLoaded,
   onSelectItem
 }: MediaListPanelProps) {
   const [sortBy, setSortBy] = useState<'order' | 'date'>('order');
   const [draggingId, setDraggingId] = useState<string | null>(null);
   const [hoverIndex, setHoverIndex] = useState<number | null>(null);
   const [contextMenu, setContextMenu] = useState<{x: number, y: number, itemId: string} | null>(null);
+  const [showMediaPool, setShowMediaPool] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   const itemRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+  const thumbnails = useThumbnails(mediaItems);
 
   const sortedItems = [...mediaItems].sort((a, b) => {
     if (sortBy === 'date') {
@@ -53,7 +99,7 @@ export default function MediaListPanel({
       
       // First pass: Add files immediately without thumbnails/duration
       const quickItems: MediaItem[] = filePaths.map((path, index) => {
-        const filename = path.split('\\').pop() || path.split('/').pop() || path;
+        const filename = basename(path);
         const extension = filename.split('.').pop()?.toLowerCase() || '';
         
         const videoExtensions = ['mp4', 'mov', 'avi', 'mkv', 'webm', 'flv', 'wmv'];
@@ -65,7 +111,6 @@ export default function MediaListPanel({
           filepath: path,
           type: isVideo ? 'video' : 'image',
           duration: undefined,
-          thumbnail: undefined,
           dateCreated: new Date(),
           caption: '',
           showCaption: true,
@@ -74,57 +119,33 @@ export default function MediaListPanel({
       });
 
       // Add items immediately so UI is responsive
-      const allItems = [...mediaItems, ...quickItems];
-      onMediaItemsChange(allItems);
-
-      // Second pass: Generate thumbnails and duration in background
-      for (let index = 0; index < quickItems.length; index++) {
-        const item = quickItems[index];
-        const path = filePaths[index];
-
-        if (item.type === 'video') {
-          try {
-            // Get duration and thumbnail first (these usually work)
-            const [duration, thumbnail] = await Promise.all([
-              invoke<number>('get_video_duration', { path }),
-              invoke<string>('generate_thumbnail', { videoPath: path })
-            ]);
-            
-            item.duration = duration;
-            item.thumbnail = thumbnail;
-
-            // Try to get resolution separately - if it fails, use default
-            try {
-              item.resolution = await invoke<string>('get_video_resolution', { path });
-            } catch (resError) {
-              console.warn('Could not get resolution for', item.filename, '- using default 1920x1080');
-              item.resolution = '1920x1080'; // Default resolution
-            }
-
-          } catch (error) {
-            console.error('Error getting video info for', item.filename, error);
-            // Even if we fail, set some defaults so the item still loads
-            item.resolution = '1920x1080';
-          }
-        } else {
-          try {
-            item.thumbnail = await invoke<string>('read_image_as_base64', { imagePath: path });
-          } catch (error) {
-            console.error('Error reading image', item.filename, error);
-          }
-        }
+      onMediaItemsChange([...mediaItems, ...quickItems]);
 
-        // Update the full list with the updated item
-        const updatedItems = allItems.map(existingItem => 
-          existingItem.id === item.id ? { ...item } : existingItem
-        );
-        onMediaItemsChange(updatedItems);
+      // Second pass: Load metadata in background. The list may have changed meanwhile, so
+      // each item is patched by id and skipped if it was removed.
+      for (const item of quickItems) {
+        onMediaItemLoaded(item.id, await loadItemMetadata(item));
       }
     } catch (error) {
       console.error('Error selecting files:', error);
     }
   };
 
+  // Pool files already carry their metadata, so they are added in one step
+  const handleAddFromPool = (entries: MediaPoolItem[]) => {
+    setShowMediaPool(false);
+    if (entries.length === 0) return;
+
+    const newItems: MediaItem[] = entries.map((entry, index) => ({
+      ...entry,
+      id: `${Date.now()}_${index}`,
+      caption: '',
+      showCaption: true,
+      order: mediaItems.length + index
+    }));
+    onMediaItemsChange([...mediaItems, ...newItems]);
+  };
+
   const handleInsertFiles = async (beforeItemId: string) => {
     setContextMenu(null); // Close menu
     
@@ -147,7 +168,7 @@ export default function MediaListPanel({
       
       // Create new items (same logic as handleAddFiles)
       const newItems: MediaItem[] = filePaths.map((path, index) => {
-        const filename = path.split('\\').pop() || path.split('/').pop() || path;
+        const filename = basename(path);
         const extension = filename.split('.').pop()?.toLowerCase() || '';
         const videoExtensions = ['mp4', 'mov', 'avi', 'mkv', 'webm', 'flv', 'wmv'];
         const isVideo = videoExtensions.includes(extension);
@@ -158,7 +179,6 @@ export default function MediaListPanel({
           filepath: path,
           type: isVideo ? 'video' : 'image',
           duration: undefined,
-          thumbnail: undefined,
           dateCreated: new Date(),
           caption: '',
           showCaption: true,
@@ -169,48 +189,17 @@ export default function MediaListPanel({
       // Insert items at the specific index
       const itemsBefore = mediaItems.slice(0, insertIndex);
       const itemsAfter = mediaItems.slice(insertIndex);
-      const updatedItems = [...itemsBefore, ...newItems, ...itemsAfter];
-      
       // Update order values
-      updatedItems.forEach((item, idx) => {
-        item.order = idx;
-      });
+      const updatedItems = [...itemsBefore, ...newItems, ...itemsAfter].map((item, idx) => ({
+        ...item,
+        order: idx
+      }));
       
       onMediaItemsChange(updatedItems);
 
-      // Load thumbnails in background (same as handleAddFiles)
-      for (let index = 0; index < newItems.length; index++) {
-        const item = newItems[index];
-        const path = filePaths[index];
-
-        if (item.type === 'video') {
-          try {
-            const [duration, thumbnail] = await Promise.all([
-              invoke<number>('get_video_duration', { path }),
-              invoke<string>('generate_thumbnail', { videoPath: path })
-            ]);
-            
-            item.duration = duration;
-            item.thumbnail = thumbnail;
-
-            try {
-              item.resolution = await invoke<string>('get_video_resolution', { path });
-            } catch {
-              item.resolution = '1920x1080';
-            }
-          } catch (error) {
-            console.error('Error getting video info for', item.filename, error);
-            item.resolution = '1920x1080';
-          }
-        } else {
-          try {
-            item.thumbnail = await invoke<string>('read_image_as_base64', { imagePath: path });
-          } catch (error) {
-            console.error('Error reading image', item.filename, error);
-          }
-        }
-
-        onMediaItemsChange([...updatedItems]);
+      // Load metadata in background (same as handleAddFiles)
+      for (const item of newItems) {
+        onMediaItemLoaded(item.id, await loadItemMetadata(item));
       }
     } catch (error) {
       console.error('Error inserting files:', error);
@@ -223,10 +212,9 @@ export default function MediaListPanel({
   };
 
   const handleDeleteItem = (id: string) => {
-    const items = mediaItems.filter(item => item.id !== id);
-    items.forEach((item, index) => {
-      item.order = index;
-    });
+    const items = mediaItems
+      .filter(item => item.id !== id)
+      .map((item, index) => ({ ...item, order: index }));
     onMediaItemsChange(items);
     
     if (selectedItemId === id) {
@@ -243,10 +231,9 @@ export default function MediaListPanel({
       await invoke('exclude_file', { filePath: item.filepath });
       
       // Remove from list after successful move
-      const items = mediaItems.filter(i => i.id !== id);
-      items.forEach((item, index) => {
-        item.order = index;
-      });
+      const items = mediaItems
+        .filter(i => i.id !== id)
+        .map((item, index) => ({ ...item, order: index }));
       onMediaItemsChange(items);
       
       if (selectedItemId === id) {
@@ -268,7 +255,7 @@ export default function MediaListPanel({
     const items = mediaItems.map(item =>
       item.id === id ? { ...item, caption } : item
     );
-    onMediaItemsChange(items);
+    onMediaItemsChange(items, { coalesceKey: `caption:${id}` });
   };
 
   const handleShowCaptionToggle = (id: string) => {
@@ -282,9 +269,23 @@ export default function MediaListPanel({
     const items = mediaItems.map(item =>
       item.id === id ? { ...item, photoDuration: duration } : item
     );
+    onMediaItemsChange(items, { coalesceKey: `photoDuration:${id}` });
+  };
+
+  const handleOrientationChange = (id: string, orientation: Orientation | undefined) => {
+    const items = mediaItems.map(item =>
+      item.id === id ? { ...item, orientation } : item
+    );
     onMediaItemsChange(items);
   };
 
+  const handleTransitionChange = (id: string, transition: Transition | undefined) => {
+    const items = mediaItems.map(item =>
+      item.id === id ? { ...item, transition } : item
+    );
+    onMediaItemsChange(items, { coalesceKey: `transition:${id}` });
+  };
+
   useEffect(() => {
     if (!draggingId) return;
 
@@ -315,14 +316,11 @@ export default function MediaListPanel({
         const draggedIndex = sortedItems.findIndex(item => item.id === draggingId);
         
         if (draggedIndex !== -1 && draggedIndex !== hoverIndex) {
-          const items = [...sortedItems];
-          const [draggedItem] = items.splice(draggedIndex, 1);
-          items.splice(hoverIndex, 0, draggedItem);
-
-          items.forEach((item, idx) => {
-            item.order = idx;
-          });
+          const reordered = [...sortedItems];
+          const [draggedItem] = reordered.splice(draggedIndex, 1);
+          reordered.splice(hoverIndex, 0, draggedItem);
 
+          const items = reordered.map((item, idx) => ({ ...item, order: idx }));
           onMediaItemsChange(items);
         }
       }
@@ -406,15 +404,32 @@ export default function MediaListPanel({
         </select>
       </div>
 
-      <div className="p-3 border-b border-gray-700">
+      <div className="p-3 border-b border-gray-700 flex gap-2">
         <button
           onClick={handleAddFiles}
-          className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-medium transition-colors"
+          className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-medium transition-colors"
         >
           + Add Files
         </button>
+        <button
+          onClick={() => setShowMediaPool(true)}
+          disabled={mediaPool.length === 0}
+          className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Add files already imported into this project"
+        >
+          From Pool
+        </button>
       </div>
 
+      {showMediaPool && (
+        <MediaPoolModal
+          mediaPool={mediaPool}
+          mediaItems={mediaItems}
+          onAdd={handleAddFromPool}
+          onClose={() => setShowMediaPool(false)}
+        />
+      )}
+
       <div ref={containerRef} className="flex-1 overflow-auto p-3">
         {sortedItems.length === 0 ? (
           <div className="text-center text-gray-500 text-sm mt-8">
@@ -437,13 +452,18 @@ export default function MediaListPanel({
               )}
               <MediaItemCard
                 item={item}
+                thumbnail={thumbnails[item.filepath]}
                 isSelected={item.id === selectedItemId}
                 isDragging={draggingId === item.id}
                 defaultPhotoDuration={defaultPhotoDuration}
+                defaultTransition={defaultTransition}
+                hasNextItem={item.id !== mediaItems[mediaItems.length - 1]?.id}
                 onSelect={onSelectItem}
                 onCaptionChange={handleCaptionChange}
                 onShowCaptionToggle={handleShowCaptionToggle}
                 onPhotoDurationChange={handlePhotoDurationChange}
+                onTransitionChange={handleTransitionChange}
+                onOrientationChange={handleOrientationChange}
                 onDelete={handleDeleteItem}
                 onExclude={handleExcludeItem}
                 onDragHandleMouseDown={handleDragHandleMouseDown}
@@ -0,0 +1,111 @@
+// src/components/MediaPoolModal.tsx
+
+import { useState } from 'react';
+import { MediaItem } from '../types';
+import { MediaPoolItem } from '../utils/projectFile';
+import { useThumbnails } from '../hooks/useThumbnails';
+
+interface MediaPoolModalProps {
+  mediaPool: MediaPoolItem[];
+  // Items of the active sequence, to mark pool files it already uses
+  mediaItems: MediaItem[];
+  onAdd: (entries: MediaPoolItem[]) => void;
+  onClose: () => void;
+}
+
+export default function MediaPoolModal({
+  mediaPool,
+  mediaItems,
+  onAdd,
+  onClose
+}: MediaPoolModalProps) {
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const thumbnails = useThumbnails(mediaPool);
+
+  const usedPaths = new Set(mediaItems.map(item => item.filepath));
+  const sortedPool = [...mediaPool].sort((a, b) => a.dateCreated.getTime() - b.dateCreated.getTime());
+
+  const toggleSelected = (filepath: string) => {
+    setSelectedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(filepath)) {
+        next.delete(filepath);
+      } else {
+        next.add(filepath);
+      }
+      return next;
+    });
+  };
+
+  const handleAdd = () => {
+    onAdd(sortedPool.filter(entry => selectedPaths.has(entry.filepath)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-[600px] max-h-[80vh] flex flex-col border border-gray-700">
+        <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Media Pool</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              Every file imported into this project. Selected files are added to the end of the current sequence.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white text-2xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {sortedPool.length === 0 ? (
+            <div className="text-sm text-gray-500">No media imported yet.</div>
+          ) : (
+            sortedPool.map(entry => (
+              <label
+                key={entry.filepath}
+                className="flex items-center gap-3 p-2 bg-gray-700 rounded cursor-pointer hover:bg-gray-600"
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedPaths.has(entry.filepath)}
+                  onChange={() => toggleSelected(entry.filepath)}
+                />
+                <div className="w-16 h-10 bg-gray-900 rounded overflow-hidden flex-shrink-0">
+                  {thumbnails[entry.filepath] && (
+                    <img src={thumbnails[entry.filepath]} alt="" className="w-full h-full object-cover" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm truncate">{entry.filename}</div>
+                  <div className="text-xs text-gray-400 truncate">{entry.filepath}</div>
+                </div>
+                {usedPaths.has(entry.filepath) && (
+                  <span className="text-xs text-gray-400 flex-shrink-0">In sequence</span>
+                )}
+              </label>
+            ))
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleAdd}
+            disabled={selectedPaths.size === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add {selectedPaths.size > 0 ? selectedPaths.size : ''} to Sequence
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
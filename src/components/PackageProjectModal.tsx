@@ -0,0 +1,145 @@
+// src/components/PackageProjectModal.tsx
+
+import { useState } from 'react';
+import { open } from '@tauri-apps/plugin-dialog';
+import { PackageProjectOptions } from '../utils/packageProject';
+
+interface PackageProjectModalProps {
+  defaultName: string;
+  hasTrimmedClips: boolean;
+  onPackage: (options: Omit<PackageProjectOptions, 'onProgress'>) => void;
+  onClose: () => void;
+}
+
+export default function PackageProjectModal({
+  defaultName,
+  hasTrimmedClips,
+  onPackage,
+  onClose
+}: PackageProjectModalProps) {
+  const [destinationDir, setDestinationDir] = useState('');
+  const [projectName, setProjectName] = useState(defaultName);
+  const [trimToClips, setTrimToClips] = useState(false);
+  const [createArchive, setCreateArchive] = useState(false);
+
+  const trimmedName = projectName.trim();
+  const isNameValid = trimmedName.length > 0 && !/[\\/:*?"<>|]/.test(trimmedName);
+
+  const handleBrowse = async () => {
+    const selected = await open({ directory: true, multiple: false });
+    if (selected && !Array.isArray(selected)) {
+      setDestinationDir(selected);
+    }
+  };
+
+  const handlePackage = () => {
+    onPackage({
+      destinationDir,
+      projectName: trimmedName,
+      trimToClips: trimToClips && hasTrimmedClips,
+      createArchive
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-[500px] border border-gray-700">
+        <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Package Project</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white text-2xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-400">
+            Copies the project and every media and audio file it uses into a single folder,
+            so it can be opened on another machine without relinking.
+          </p>
+
+          <div>
+            <label className="block text-sm mb-1">Package Name</label>
+            <input
+              type="text"
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
+            />
+            {!isNameValid && (
+              <p className="text-xs text-red-400 mt-1">Enter a name without \ / : * ? " &lt; &gt; |</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm mb-1">Destination Folder</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={destinationDir}
+                readOnly
+                placeholder="Choose a folder..."
+                className="flex-1 bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm truncate"
+              />
+              <button
+                onClick={handleBrowse}
+                className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded text-sm"
+              >
+                Browse...
+              </button>
+            </div>
+          </div>
+
+          <label className={`flex items-start gap-3 ${hasTrimmedClips ? 'cursor-pointer' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={trimToClips && hasTrimmedClips}
+              disabled={!hasTrimmedClips}
+              onChange={(e) => setTrimToClips(e.target.checked)}
+              className="w-4 h-4 mt-0.5"
+            />
+            <div>
+              <div className="text-sm">Include only trimmed clip ranges</div>
+              <div className="text-xs text-gray-400">
+                Videos with clips are re-encoded down to just the clips (plus a second either side) to save space.
+              </div>
+            </div>
+          </label>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={createArchive}
+              onChange={(e) => setCreateArchive(e.target.checked)}
+              className="w-4 h-4 mt-0.5"
+            />
+            <div>
+              <div className="text-sm">Create .zip archive</div>
+              <div className="text-xs text-gray-400">
+                The package folder is zipped and removed afterwards.
+              </div>
+            </div>
+          </label>
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handlePackage}
+            disabled={!destinationDir || !isNameValid}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Package
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,19 @@
 // src/components/PreviewPanel.tsx
 
-import { useRef, useState } from 'react';
-import { MediaItem } from '../types';
+import { useEffect, useRef, useState } from 'react';
+import { FramingMode, MediaItem, Transition } from '../types';
 import { CaptionSettings } from './Captionsettingsmodal';
 import { usePreviewPlayback } from '../hooks/usePreviewPlayback';
+import { getMotionRects, getMotionTransform } from '../utils/photoMotion';
+import { getItemFraming } from '../utils/framing';
+import { getOrientationStyle } from '../utils/orientation';
 
 interface PreviewPanelProps {
   selectedItem: MediaItem | null;
   mediaItems: MediaItem[];
   defaultPhotoDuration: number;
+  defaultTransition: Transition;
+  defaultFraming: FramingMode;
   captionSettings: CaptionSettings;
   aspectRatio: string;
   onCurrentItemChange: (itemId: string) => void;
@@ -19,6 +24,8 @@ export default function PreviewPanel({
   selectedItem, 
   mediaItems,
   defaultPhotoDuration,
+  defaultTransition,
+  defaultFraming,
   captionSettings,
   aspectRatio,
   onCurrentItemChange,
@@ -29,6 +36,8 @@ export default function PreviewPanel({
   
   const [videoSrc, setVideoSrc] = useState<string>('');
   const [imageSrc, setImageSrc] = useState<string>('');
+  // Whether the playing photo has been sent to its end framing
+  const [isMotionAtEnd, setIsMotionAtEnd] = useState(false);
 
   const {
     setIsPlaying,
@@ -44,6 +53,7 @@ export default function PreviewPanel({
     mediaItems,
     selectedItem,
     defaultPhotoDuration,
+    defaultTransition,
     onCurrentItemChange,
     onPreviewModeChange,
     videoRef,
@@ -51,6 +61,39 @@ export default function PreviewPanel({
     setImageSrc
   });
 
+  const currentItem = isPreviewMode ? playlist[currentMediaIndex] : selectedItem;
+  // Photo motion is previewed with a CSS transition, an approximation of the rendered zoompan
+  const motionRects = isPreviewMode && currentItem ? getMotionRects(currentItem) : null;
+
+  useEffect(() => {
+    setIsMotionAtEnd(false);
+    if (!motionRects || !imageSrc) return;
+
+    // Two frames, so the start framing is painted before the transition to the end begins
+    let frame = requestAnimationFrame(() => {
+      frame = requestAnimationFrame(() => setIsMotionAtEnd(true));
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPreviewMode, currentItem?.id, imageSrc]);
+
+  const framing = currentItem ? getItemFraming(currentItem, defaultFraming) : null;
+  const framedMediaStyle: React.CSSProperties = {
+    ...(framing?.cropPosition
+      ? { objectFit: 'cover', objectPosition: `${framing.cropPosition.x * 100}% ${framing.cropPosition.y * 100}%` }
+      : { objectFit: 'contain' }),
+    ...getOrientationStyle(currentItem?.orientation, aspectRatio, framing?.mode === 'fill')
+  };
+
+  const getImageMotionStyle = (): React.CSSProperties | undefined => {
+    if (!motionRects || !currentItem) return undefined;
+    const duration = currentItem.photoDuration ?? defaultPhotoDuration;
+    return {
+      transformOrigin: '0 0',
+      transform: getMotionTransform(isMotionAtEnd ? motionRects.end : motionRects.start),
+      transition: isMotionAtEnd ? `transform ${duration}s ease-in-out` : 'none'
+    };
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -100,8 +143,6 @@ export default function PreviewPanel({
     );
   }
 
-  const currentItem = isPreviewMode ? playlist[currentMediaIndex] : selectedItem;
-
   return (
     <div className="h-full bg-gray-850 flex flex-col min-h-0">
       <div className="p-3 border-b border-gray-700 font-semibold text-sm flex-shrink-0 flex items-center justify-between">
@@ -136,18 +177,26 @@ export default function PreviewPanel({
       </div>
       
       <div className="flex-1 flex items-center justify-center bg-black min-h-0">
-        <div className="relative bg-black" style={{ aspectRatio: aspectRatio.replace(':', '/'), maxWidth: '100%', maxHeight: '100%' }}>
+        <div className="relative bg-black overflow-hidden" style={{ aspectRatio: aspectRatio.replace(':', '/'), maxWidth: '100%', maxHeight: '100%' }}>
           {videoSrc ? (
             <video
               ref={videoRef}
-              className="w-full h-full object-contain"
+              className="w-full h-full"
+              style={framedMediaStyle}
               src={videoSrc}
               onTimeUpdate={isPreviewMode ? handleVideoTimeUpdate : undefined}
               onPlay={() => setIsPlaying(true)}
               onPause={() => setIsPlaying(false)}
             />
           ) : imageSrc ? (
-            <img ref={imageRef} src={imageSrc} alt={currentItem?.filename} className="w-full h-full object-contain" />
+            <div className="relative w-full h-full" style={getImageMotionStyle()}>
+              {framing?.mode === 'blur' && (
+                <div className="absolute inset-0" style={getOrientationStyle(currentItem?.orientation, aspectRatio, true)}>
+                  <img src={imageSrc} alt="" className="w-full h-full object-cover blur-xl scale-110" />
+                </div>
+              )}
+              <img ref={imageRef} src={imageSrc} alt={currentItem?.filename} className="relative w-full h-full" style={framedMediaStyle} />
+            </div>
           ) : (
             <div className="text-gray-500 text-center absolute inset-0 flex items-center justify-center">
               {isPreviewMode ? 'Loading...' : selectedItem ? (
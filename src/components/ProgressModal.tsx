@@ -1,12 +1,19 @@
 // src/components/ProgressModal.tsx
 
+import { RenderProgress, formatEta } from '../utils/ffmpegProgress';
+
 interface ProgressModalProps {
   title: string;
   message: string;
   progress?: number; // 0-100, undefined for indeterminate
+  // Live ffmpeg details: current item, encoding speed and time remaining
+  details?: RenderProgress | null;
+  // Shows a Cancel button when set
+  onCancel?: () => void;
+  isCancelling?: boolean;
 }
 
-export default function ProgressModal({ title, message, progress }: ProgressModalProps) {
+export default function ProgressModal({ title, message, progress, details, onCancel, isCancelling = false }: ProgressModalProps) {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
       <div className="bg-gray-800 border border-gray-600 rounded-lg p-6 max-w-md w-full mx-4">
@@ -31,6 +38,28 @@ export default function ProgressModal({ title, message, progress }: ProgressModa
         {progress !== undefined && (
           <p className="text-center text-sm text-gray-400 mt-2">{Math.round(progress)}%</p>
         )}
+
+        {details && (
+          <div className="mt-3 space-y-1 text-xs text-gray-400">
+            <div className="truncate">Current: {details.stage}</div>
+            <div className="flex justify-between">
+              <span>Speed: {details.speed !== null ? `${details.speed.toFixed(2)}x` : '—'}</span>
+              <span>Remaining: {details.etaSeconds !== null ? formatEta(details.etaSeconds) : 'estimating...'}</span>
+            </div>
+          </div>
+        )}
+
+        {onCancel && (
+          <div className="flex justify-end mt-4">
+            <button
+              onClick={onCancel}
+              disabled={isCancelling}
+              className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isCancelling ? 'Cancelling...' : 'Cancel'}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
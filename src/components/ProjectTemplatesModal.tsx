@@ -0,0 +1,171 @@
+// src/components/ProjectTemplatesModal.tsx
+
+import { useEffect, useState } from 'react';
+import {
+  ProjectTemplate,
+  TemplateSettings,
+  loadTemplates,
+  saveTemplate,
+  deleteTemplate
+} from '../utils/projectTemplates';
+import { formatFrameRate } from '../utils/frameRate';
+import { describeExportSettings } from '../utils/exportProfiles';
+import { getTransitionLabel } from '../utils/timeline';
+import { getFramingLabel } from '../utils/framing';
+
+interface ProjectTemplatesModalProps {
+  // 'save' stores the current settings as a template, 'new' starts a project from one
+  mode: 'save' | 'new';
+  currentSettings: TemplateSettings;
+  onUseTemplate: (template: ProjectTemplate) => void;
+  onClose: () => void;
+}
+
+function describeTemplate(settings: TemplateSettings): string {
+  return [
+    settings.aspectRatio,
+    settings.targetResolution ?? 'auto resolution',
+    settings.targetFrameRate ? formatFrameRate(settings.targetFrameRate) : 'source fps',
+    describeExportSettings(settings.outputFormat, settings.exportSettings),
+    `${settings.defaultPhotoDuration}s photos`,
+    settings.defaultTransition.type === 'none'
+      ? 'cuts'
+      : `${getTransitionLabel(settings.defaultTransition.type).toLowerCase()} ${settings.defaultTransition.duration}s`,
+    getFramingLabel(settings.defaultFraming).toLowerCase(),
+    `${settings.videoDuckingPercent}% ducking`
+  ].join(' · ');
+}
+
+export default function ProjectTemplatesModal({
+  mode,
+  currentSettings,
+  onUseTemplate,
+  onClose
+}: ProjectTemplatesModalProps) {
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [templateName, setTemplateName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadTemplates()
+      .then(setTemplates)
+      .catch(error => console.error('Error loading templates:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleSave = async () => {
+    const name = templateName.trim();
+    if (!name) return;
+
+    const existing = templates.find(template => template.name.toLowerCase() === name.toLowerCase());
+    if (existing && !confirm(`Replace the existing template "${existing.name}"?`)) {
+      return;
+    }
+
+    try {
+      await saveTemplate(name, currentSettings);
+      onClose();
+    } catch (error) {
+      console.error('Error saving template:', error);
+      alert(`Failed to save template: ${error}`);
+    }
+  };
+
+  const handleDelete = async (template: ProjectTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+
+    try {
+      setTemplates(await deleteTemplate(template.id));
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      alert(`Failed to delete template: ${error}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-[500px] max-h-[80vh] flex flex-col border border-gray-700">
+        <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">
+            {mode === 'save' ? 'Save as Template' : 'New from Template'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white text-2xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        {mode === 'save' && (
+          <div className="p-4 border-b border-gray-700 space-y-2">
+            <p className="text-sm text-gray-400">
+              Saves the caption style, aspect ratio, resolution, frame rate, photo duration, ducking, output format and encoder settings.
+            </p>
+            <p className="text-xs text-gray-500">{describeTemplate(currentSettings)}</p>
+            <input
+              type="text"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Template name, e.g. Instagram reel"
+              autoFocus
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
+            />
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {isLoading ? (
+            <div className="text-sm text-gray-500">Loading templates...</div>
+          ) : templates.length === 0 ? (
+            <div className="text-sm text-gray-500">
+              No templates yet. Use File › Save as Template to create one.
+            </div>
+          ) : (
+            templates.map(template => (
+              <div key={template.id} className="flex items-center gap-3 p-2 bg-gray-700 rounded">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm truncate">{template.name}</div>
+                  <div className="text-xs text-gray-400 truncate">{describeTemplate(template.settings)}</div>
+                </div>
+                {mode === 'new' && (
+                  <button
+                    onClick={() => onUseTemplate(template)}
+                    className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-xs flex-shrink-0"
+                  >
+                    Use
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="px-3 py-1 bg-gray-600 hover:bg-red-600 rounded text-xs flex-shrink-0"
+                >
+                  Delete
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+          >
+            Cancel
+          </button>
+          {mode === 'save' && (
+            <button
+              onClick={handleSave}
+              disabled={!templateName.trim()}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save Template
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
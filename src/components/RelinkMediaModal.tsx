@@ -0,0 +1,144 @@
+// src/components/RelinkMediaModal.tsx
+
+import { useState } from 'react';
+import { open } from '@tauri-apps/plugin-dialog';
+import { RelinkMap, searchFolderForMedia, relinkSiblings } from '../utils/mediaRelink';
+import { basename } from '../utils/paths';
+
+interface RelinkMediaModalProps {
+  missingPaths: string[];
+  onApply: (relinks: RelinkMap) => void;
+  onSkip: () => void;
+}
+
+export default function RelinkMediaModal({
+  missingPaths,
+  onApply,
+  onSkip
+}: RelinkMediaModalProps) {
+  const [relinks, setRelinks] = useState<RelinkMap>({});
+  // Possible matches for files the folder search couldn't tell apart
+  const [candidates, setCandidates] = useState<Record<string, string[]>>({});
+  const [isSearching, setIsSearching] = useState(false);
+
+  const unresolvedPaths = missingPaths.filter(path => !relinks[path]);
+  const resolvedCount = missingPaths.length - unresolvedPaths.length;
+
+  const handleSearchFolder = async () => {
+    try {
+      const selected = await open({ directory: true, multiple: false });
+      if (!selected || Array.isArray(selected)) return;
+
+      setIsSearching(true);
+      const { relinks: found, ambiguous } = await searchFolderForMedia(selected, unresolvedPaths);
+      setRelinks(prev => ({ ...prev, ...found }));
+      setCandidates(prev => ({ ...prev, ...ambiguous }));
+
+      if (Object.keys(found).length === 0 && Object.keys(ambiguous).length === 0) {
+        alert('None of the missing files were found in that folder.');
+      }
+    } catch (error) {
+      console.error('Error searching folder:', error);
+      alert(`Failed to search folder: ${error}`);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleLocate = async (originalPath: string) => {
+    try {
+      const selected = await open({
+        multiple: false,
+        defaultPath: basename(originalPath)
+      });
+      if (!selected || Array.isArray(selected)) return;
+
+      setIsSearching(true);
+      const siblings = await relinkSiblings(originalPath, selected, unresolvedPaths);
+      setRelinks(prev => ({ ...prev, ...siblings, [originalPath]: selected }));
+    } catch (error) {
+      console.error('Error locating file:', error);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-[700px] max-h-[80vh] flex flex-col">
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold">Missing Media</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            {missingPaths.length} file{missingPaths.length !== 1 ? 's' : ''} used by this project could not be found.
+            Search a folder to relink everything with matching filenames, or locate files one by one.
+          </p>
+        </div>
+
+        <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+          <span className="text-sm text-gray-400">
+            {resolvedCount} of {missingPaths.length} relinked
+          </span>
+          <button
+            onClick={handleSearchFolder}
+            disabled={isSearching || unresolvedPaths.length === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSearching ? 'Searching...' : '🔍 Search Folder...'}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {missingPaths.map(path => (
+            <div key={path} className="flex items-center gap-3 p-2 bg-gray-700 rounded">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm truncate" title={path}>{basename(path)}</div>
+                {relinks[path] ? (
+                  <div className="text-xs text-green-400 truncate" title={relinks[path]}>
+                    → {relinks[path]}
+                  </div>
+                ) : (
+                  <div className="text-xs text-gray-500 truncate" title={path}>{path}</div>
+                )}
+                {!relinks[path] && candidates[path] && (
+                  <select
+                    value=""
+                    onChange={(e) => setRelinks(prev => ({ ...prev, [path]: e.target.value }))}
+                    className="mt-1 w-full bg-gray-600 rounded px-1 py-0.5 text-xs"
+                  >
+                    <option value="" disabled>{candidates[path].length} possible matches, choose one...</option>
+                    {candidates[path].map(candidate => (
+                      <option key={candidate} value={candidate}>{candidate}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <button
+                onClick={() => handleLocate(path)}
+                disabled={isSearching}
+                className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-xs flex-shrink-0 disabled:opacity-50"
+              >
+                Locate...
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-2">
+          <button
+            onClick={onSkip}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+          >
+            Skip
+          </button>
+          <button
+            onClick={() => onApply(relinks)}
+            disabled={resolvedCount === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Relink {resolvedCount} File{resolvedCount !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+// src/components/RenderFailureModal.tsx
+
+import { revealItemInDir } from '@tauri-apps/plugin-opener';
+import { RenderItemError } from '../utils/renderJob';
+
+interface RenderFailureModalProps {
+  error: RenderItemError;
+  // Items already left out of this render after earlier failures
+  skippedCount: number;
+  onSkip: () => void;
+  onGoToItem: () => void;
+  onClose: () => void;
+}
+
+export default function RenderFailureModal({
+  error,
+  skippedCount,
+  onSkip,
+  onGoToItem,
+  onClose
+}: RenderFailureModalProps) {
+  const handleShowLog = async () => {
+    if (!error.logPath) return;
+    try {
+      await revealItemInDir(error.logPath);
+    } catch (revealError) {
+      console.error('Error showing render log:', revealError);
+      alert(`Could not open the log folder.\n${error.logPath}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+      <div className="bg-gray-800 border border-gray-600 rounded-lg shadow-xl w-[600px] flex flex-col">
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-red-400">Render Failed</h2>
+          <p className="text-sm text-gray-300 mt-1">
+            Item {error.itemIndex + 1} <span className="text-white font-semibold">{error.filename}</span> could not be processed.
+          </p>
+        </div>
+
+        <div className="p-4 space-y-3 text-sm">
+          <pre className="p-3 bg-gray-900 rounded text-xs text-gray-300 whitespace-pre-wrap break-words max-h-48 overflow-auto">
+            {error.details}
+          </pre>
+          {error.logPath && (
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <span className="flex-1 truncate" title={error.logPath}>Full log: {error.logPath}</span>
+              <button
+                onClick={handleShowLog}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded"
+              >
+                Show Log
+              </button>
+            </div>
+          )}
+          <p className="text-xs text-gray-400">
+            Skipping leaves the item out of this render only; it stays in the project.
+            {skippedCount > 0 && ` ${skippedCount} item${skippedCount !== 1 ? 's were' : ' was'} skipped already.`}
+          </p>
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+          >
+            Close
+          </button>
+          <button
+            onClick={onGoToItem}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+          >
+            Go to Item
+          </button>
+          <button
+            onClick={onSkip}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold"
+          >
+            Skip Item and Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+// src/components/RenderQueueWindow.tsx
+
+import { useEffect, useRef, useState } from 'react';
+import { RenderQueue } from '../hooks/useRenderQueue';
+import { QueueJobStatus } from '../utils/renderQueue';
+import { describeExportSettings } from '../utils/exportProfiles';
+import { formatEta } from '../utils/ffmpegProgress';
+
+interface RenderQueueWindowProps {
+  queue: RenderQueue;
+  // Adds the open project's active sequence; null while there's nothing to add
+  onAddCurrent: (() => void) | null;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<QueueJobStatus, string> = {
+  queued: 'bg-gray-600 text-gray-100',
+  paused: 'bg-yellow-700 text-yellow-100',
+  running: 'bg-blue-600 text-white',
+  done: 'bg-green-700 text-green-100',
+  failed: 'bg-red-700 text-red-100'
+};
+
+export default function RenderQueueWindow({ queue, onAddCurrent, onClose }: RenderQueueWindowProps) {
+  const { jobs, isProcessing, activeJob, progress } = queue;
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const logEndRef = useRef<HTMLDivElement>(null);
+
+  const selectedJob = jobs.find(job => job.id === selectedJobId) ?? activeJob ?? jobs[0] ?? null;
+  const hasQueuedJobs = jobs.some(job => job.status === 'queued');
+
+  // Follow the log of the selected job as it grows
+  useEffect(() => {
+    logEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [selectedJob?.log.length]);
+
+  const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 z-50 flex flex-col">
+      {/* Header */}
+      <div className="h-12 bg-gray-800 border-b border-gray-700 flex items-center px-4 justify-between flex-shrink-0">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+          >
+            ← Back
+          </button>
+          <span className="text-lg font-semibold">Render Queue</span>
+          {isProcessing && (
+            <span className="text-blue-400 text-sm">● Rendering</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onAddCurrent?.()}
+            disabled={!onAddCurrent}
+            className="px-4 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            title={onAddCurrent ? 'Queue the current sequence with an export preset' : 'Open or save a project first'}
+          >
+            + Add Current Project
+          </button>
+          <button
+            onClick={queue.clearFinished}
+            disabled={!jobs.some(job => job.status === 'done')}
+            className="px-4 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear Finished
+          </button>
+          {isProcessing ? (
+            <button
+              onClick={queue.stop}
+              className="px-4 py-1 bg-yellow-600 hover:bg-yellow-700 rounded text-sm font-semibold"
+              title="The running job finishes, then the queue stops"
+            >
+              Stop After Current
+            </button>
+          ) : (
+            <button
+              onClick={queue.start}
+              disabled={!hasQueuedJobs}
+              className="px-4 py-1 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              Start Queue
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden min-h-0">
+        {/* Jobs */}
+        <div className="flex-1 overflow-auto p-4 space-y-2">
+          {jobs.length === 0 && (
+            <div className="text-center text-gray-500 text-sm mt-8">
+              The queue is empty. Add the current project with an export preset to render it later.
+            </div>
+          )}
+          {jobs.map((job, index) => {
+            const isActive = job.id === activeJob?.id;
+            const jobProgress = isActive && progress?.jobId === job.id ? progress : null;
+            return (
+              <div
+                key={job.id}
+                onClick={() => setSelectedJobId(job.id)}
+                className={`p-3 rounded border cursor-pointer ${
+                  job.id === selectedJob?.id ? 'border-blue-500 bg-gray-800' : 'border-gray-700 bg-gray-800 hover:border-gray-500'
+                }`}
+              >
+                <div className="flex items-center gap-3">
+                  <span className={`px-2 py-0.5 rounded text-xs font-semibold uppercase ${STATUS_STYLES[job.status]}`}>
+                    {job.status}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-semibold truncate">
+                      {job.projectName} · {job.sequenceName}
+                    </div>
+                    <div className="text-xs text-gray-400 truncate">
+                      {describeExportSettings(job.outputFormat, job.exportSettings)}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                    <button
+                      onClick={() => queue.moveJob(job.id, -1)}
+                      disabled={index === 0}
+                      className={buttonClass}
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => queue.moveJob(job.id, 1)}
+                      disabled={index === jobs.length - 1}
+                      className={buttonClass}
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    {job.status === 'queued' || job.status === 'running' ? (
+                      <button onClick={() => queue.pauseJob(job.id)} className={buttonClass}>
+                        Pause
+                      </button>
+                    ) : (
+                      <button onClick={() => queue.resumeJob(job.id)} className={buttonClass}>
+                        {job.status === 'paused' ? 'Resume' : job.status === 'failed' ? 'Retry' : 'Render Again'}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => {
+                        if (job.status !== 'running' || confirm('Stop rendering this job and remove it from the queue?')) {
+                          queue.removeJob(job.id);
+                        }
+                      }}
+                      className={buttonClass}
+                      title="Remove from queue"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+
+                {jobProgress && (
+                  <div className="mt-2">
+                    <div className="w-full bg-gray-700 rounded-full h-2 overflow-hidden">
+                      <div
+                        className="bg-blue-600 h-full transition-all duration-300"
+                        style={{ width: `${jobProgress.progress.percent}%` }}
+                      />
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-400 mt-1">
+                      <span className="truncate">{jobProgress.phase}: {jobProgress.progress.stage}</span>
+                      <span>
+                        {Math.round(jobProgress.progress.percent)}%
+                        {jobProgress.progress.etaSeconds !== null && ` · ${formatEta(jobProgress.progress.etaSeconds)} left`}
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {job.status === 'failed' && job.error && (
+                  <div className="mt-2 text-xs text-red-400 truncate">{job.error}</div>
+                )}
+                {job.status === 'done' && job.outputPath && (
+                  <div className="mt-2 text-xs text-green-400 truncate">{job.outputPath}</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Log of the selected job */}
+        <div className="w-[40%] border-l border-gray-700 flex flex-col min-h-0">
+          <div className="p-3 border-b border-gray-700 text-sm font-semibold truncate">
+            {selectedJob ? `Log · ${selectedJob.projectName} · ${selectedJob.sequenceName}` : 'Log'}
+          </div>
+          <div className="flex-1 overflow-auto p-3 font-mono text-xs text-gray-300 whitespace-pre-wrap">
+            {selectedJob && selectedJob.log.length > 0
+              ? selectedJob.log.join('\n')
+              : <span className="text-gray-500">Nothing logged yet</span>}
+            <div ref={logEndRef} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,28 @@
 // src/components/ResolutionModal.tsx
 import { useState } from 'react';
+import { COMMON_FRAME_RATES, formatFrameRate } from '../utils/frameRate';
 
 interface ResolutionModalProps {
   suggestedResolution: string;
-  onConfirm: (resolution: string) => void;
+  // The sequence's chosen frame rate; null matches the sources
+  selectedFrameRate: string | null;
+  // Rate most of the footage was shot at
+  sourceFrameRate: string;
+  onConfirm: (resolution: string, frameRate: string | null) => void;
   onCancel: () => void;
 }
 
+const MATCH_SOURCES = 'source';
+
 export default function ResolutionModal({
   suggestedResolution,
+  selectedFrameRate,
+  sourceFrameRate,
   onConfirm,
   onCancel
 }: ResolutionModalProps) {
   const [selectedResolution, setSelectedResolution] = useState(suggestedResolution);
+  const [frameRate, setFrameRate] = useState(selectedFrameRate ?? MATCH_SOURCES);
   const [customWidth, setCustomWidth] = useState('');
   const [customHeight, setCustomHeight] = useState('');
 
@@ -25,14 +35,15 @@ export default function ResolutionModal({
   ];
 
   const handleConfirm = () => {
+    const chosenFrameRate = frameRate === MATCH_SOURCES ? null : frameRate;
     if (selectedResolution === 'custom') {
       if (customWidth && customHeight) {
-        onConfirm(`${customWidth}x${customHeight}`);
+        onConfirm(`${customWidth}x${customHeight}`, chosenFrameRate);
       } else {
         alert('Please enter custom width and height');
       }
     } else {
-      onConfirm(selectedResolution);
+      onConfirm(selectedResolution, chosenFrameRate);
     }
   };
 
@@ -42,7 +53,7 @@ export default function ResolutionModal({
         <div className="p-4 border-b border-gray-700">
           <h2 className="text-lg font-semibold">Select Output Resolution</h2>
           <p className="text-sm text-gray-400 mt-1">
-            Based on your first video, we suggest: <span className="text-blue-400">{suggestedResolution}</span>
+            Suggested for this project: <span className="text-blue-400">{suggestedResolution}</span>
           </p>
         </div>
 
@@ -92,6 +103,25 @@ export default function ResolutionModal({
               />
             </div>
           )}
+
+          <div className="flex items-center gap-3 pt-2">
+            <label htmlFor="frame-rate" className="text-sm text-gray-300">Frame Rate</label>
+            <select
+              id="frame-rate"
+              value={frameRate}
+              onChange={(e) => setFrameRate(e.target.value)}
+              className="flex-1 px-2 py-1 bg-gray-900 border border-gray-600 rounded text-sm"
+            >
+              <option value={MATCH_SOURCES}>Match sources ({formatFrameRate(sourceFrameRate)})</option>
+              {COMMON_FRAME_RATES.map(rate => (
+                <option key={rate.value} value={rate.value}>{rate.label}</option>
+              ))}
+              {/* A rate chosen earlier that isn't in the list, e.g. from a template */}
+              {frameRate !== MATCH_SOURCES && !COMMON_FRAME_RATES.some(rate => rate.value === frameRate) && (
+                <option value={frameRate}>{formatFrameRate(frameRate)}</option>
+              )}
+            </select>
+          </div>
         </div>
 
         <div className="p-4 border-t border-gray-700 flex justify-end gap-2">
@@ -105,7 +135,7 @@ export default function ResolutionModal({
             onClick={handleConfirm}
             className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold"
           >
-            Use This Resolution
+            Use These Settings
           </button>
         </div>
       </div>
@@ -0,0 +1,156 @@
+// src/components/SequenceSwitcher.tsx
+
+import { useState } from 'react';
+import { Sequence } from '../utils/projectFile';
+
+interface SequenceSwitcherProps {
+  sequences: Sequence[];
+  activeSequenceId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string, duplicateActive: boolean) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export default function SequenceSwitcher({
+  sequences,
+  activeSequenceId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete
+}: SequenceSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // Inline name editor: creating a new/duplicated sequence or renaming the active one
+  const [editMode, setEditMode] = useState<'new' | 'duplicate' | 'rename' | null>(null);
+  const [nameInput, setNameInput] = useState('');
+
+  const activeSequence = sequences.find(sequence => sequence.id === activeSequenceId) ?? sequences[0];
+
+  const close = () => {
+    setIsOpen(false);
+    setEditMode(null);
+  };
+
+  const startEditing = (mode: 'new' | 'duplicate' | 'rename') => {
+    setEditMode(mode);
+    setNameInput(
+      mode === 'rename' ? activeSequence.name :
+      mode === 'duplicate' ? `${activeSequence.name} copy` :
+      `Sequence ${sequences.length + 1}`
+    );
+  };
+
+  const handleConfirmName = () => {
+    const name = nameInput.trim();
+    if (!name || !editMode) return;
+
+    if (editMode === 'rename') {
+      onRename(activeSequence.id, name);
+    } else {
+      onCreate(name, editMode === 'duplicate');
+    }
+    close();
+  };
+
+  const handleDelete = () => {
+    if (sequences.length <= 1) return;
+    if (!confirm(`Delete the sequence "${activeSequence.name}"? Its edits and audio will be removed.`)) return;
+    onDelete(activeSequence.id);
+    close();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="hover:bg-gray-700 px-3 py-1 rounded flex items-center gap-2"
+        title="Switch sequence"
+      >
+        <span className="text-gray-400">Sequence:</span>
+        <span className="max-w-48 truncate">{activeSequence.name}</span>
+        <span className="text-xs text-gray-400">▾</span>
+      </button>
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-10"
+            onClick={close}
+          />
+          <div className="absolute left-0 top-full mt-1 bg-gray-800 border border-gray-600 rounded shadow-lg py-1 z-20 min-w-56">
+            {sequences.map(sequence => (
+              <button
+                key={sequence.id}
+                onClick={() => {
+                  onSwitch(sequence.id);
+                  close();
+                }}
+                className={`w-full px-4 py-2 text-left hover:bg-gray-700 text-sm flex justify-between gap-4 ${
+                  sequence.id === activeSequence.id ? 'text-blue-400' : ''
+                }`}
+              >
+                <span className="truncate">{sequence.name}</span>
+                <span className="text-xs text-gray-500 flex-shrink-0">
+                  {sequence.mediaItems.length} item{sequence.mediaItems.length !== 1 ? 's' : ''} · {sequence.aspectRatio}
+                </span>
+              </button>
+            ))}
+
+            <div className="border-t border-gray-700 my-1" />
+
+            {editMode ? (
+              <div className="px-3 py-2 flex gap-2">
+                <input
+                  type="text"
+                  value={nameInput}
+                  onChange={(e) => setNameInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleConfirmName();
+                    if (e.key === 'Escape') setEditMode(null);
+                  }}
+                  autoFocus
+                  className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm"
+                />
+                <button
+                  onClick={handleConfirmName}
+                  disabled={!nameInput.trim()}
+                  className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-xs disabled:opacity-50"
+                >
+                  OK
+                </button>
+              </div>
+            ) : (
+              <>
+                <button
+                  onClick={() => startEditing('new')}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-700 text-sm"
+                >
+                  New Sequence...
+                </button>
+                <button
+                  onClick={() => startEditing('duplicate')}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-700 text-sm"
+                >
+                  Duplicate Sequence...
+                </button>
+                <button
+                  onClick={() => startEditing('rename')}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-700 text-sm"
+                >
+                  Rename Sequence...
+                </button>
+                <button
+                  onClick={handleDelete}
+                  disabled={sequences.length <= 1}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-700 text-sm disabled:text-gray-500 disabled:hover:bg-transparent"
+                >
+                  Delete Sequence
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
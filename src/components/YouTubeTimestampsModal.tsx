@@ -1,17 +1,20 @@
 // src/components/YouTubeTimestampsModal.tsx
 
-import { MediaItem } from '../types';
+import { MediaItem, Transition } from '../types';
 import { useState, useEffect } from 'react';
+import { getClipDuration, getItemStartTimes } from '../utils/timeline';
 
 interface YouTubeTimestampsModalProps {
   mediaItems: MediaItem[];
   defaultPhotoDuration: number;
+  defaultTransition: Transition;
   onClose: () => void;
 }
 
 export default function YouTubeTimestampsModal({
   mediaItems,
   defaultPhotoDuration,
+  defaultTransition,
   onClose
 }: YouTubeTimestampsModalProps) {
   const [timestamps, setTimestamps] = useState<string>('');
@@ -32,42 +35,24 @@ export default function YouTubeTimestampsModal({
   };
 
   const generateTimestamps = () => {
-    let currentTime = 0;
+    // Transitions overlap neighbouring items, so each item starts where the transition into it begins
+    const startTimes = getItemStartTimes(mediaItems, defaultPhotoDuration, defaultTransition);
     const timestampLines: string[] = [];
 
-    mediaItems.forEach((item) => {
-      if (item.type === 'video') {
-        if (item.clips && item.clips.length > 0) {
-          // Video has clips
-          item.clips.forEach((clip) => {
-            const clipDuration = clip.end - clip.start;
-            
-            if (item.showCaption && item.caption) {
-              const timestamp = formatTimestamp(currentTime);
-              timestampLines.push(`${timestamp} ${item.caption}`);
-            }
-            
-            currentTime += clipDuration;
-          });
-        } else if (item.duration) {
-          // Full video
-          if (item.showCaption && item.caption) {
-            const timestamp = formatTimestamp(currentTime);
-            timestampLines.push(`${timestamp} ${item.caption}`);
-          }
-          
-          currentTime += item.duration;
-        }
-      } else if (item.type === 'image') {
-        // Photo
-        const photoDuration = item.photoDuration ?? defaultPhotoDuration;
-        
-        if (item.showCaption && item.caption) {
-          const timestamp = formatTimestamp(currentTime);
-          timestampLines.push(`${timestamp} ${item.caption}`);
-        }
-        
-        currentTime += photoDuration;
+    mediaItems.forEach((item, index) => {
+      if (!item.showCaption || !item.caption) return;
+      // Until a video's duration has loaded, its place in the video isn't known
+      if (item.type === 'video' && !item.duration && !(item.clips && item.clips.length > 0)) return;
+
+      if (item.type === 'video' && item.clips && item.clips.length > 0) {
+        // Video has clips
+        let clipStart = startTimes[index];
+        item.clips.forEach((clip) => {
+          timestampLines.push(`${formatTimestamp(clipStart)} ${item.caption}`);
+          clipStart += getClipDuration(clip);
+        });
+      } else {
+        timestampLines.push(`${formatTimestamp(startTimes[index])} ${item.caption}`);
       }
     });
 
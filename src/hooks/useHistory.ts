@@ -0,0 +1,122 @@
+// src/hooks/useHistory.ts
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface HistoryOptions {
+  // Consecutive changes with the same key (e.g. typing a caption, dragging a track)
+  // are merged into a single undo step
+  coalesceKey?: string;
+  // Replace the current state without creating an undo step (background updates like thumbnails)
+  skipHistory?: boolean;
+}
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const DEFAULT_LIMIT = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+export function useHistory<T>(initialValue: T, limit = DEFAULT_LIMIT) {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    past: [],
+    present: initialValue,
+    future: []
+  });
+  const lastChangeRef = useRef<{ key: string; time: number } | null>(null);
+
+  const set = useCallback((next: T | ((prev: T) => T), options: HistoryOptions = {}) => {
+    const now = Date.now();
+    const lastChange = lastChangeRef.current;
+    const coalesce = !!options.coalesceKey &&
+      lastChange?.key === options.coalesceKey &&
+      now - lastChange.time < COALESCE_WINDOW_MS;
+
+    lastChangeRef.current = options.coalesceKey ? { key: options.coalesceKey, time: now } : null;
+
+    setHistory(prev => {
+      const value = typeof next === 'function' ? (next as (prev: T) => T)(prev.present) : next;
+      if (value === prev.present) return prev;
+
+      if (options.skipHistory || coalesce) {
+        return { ...prev, present: value };
+      }
+
+      return {
+        past: [...prev.past, prev.present].slice(-limit),
+        present: value,
+        future: []
+      };
+    });
+  }, [limit]);
+
+  const undo = useCallback(() => {
+    lastChangeRef.current = null;
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future]
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastChangeRef.current = null;
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1)
+      };
+    });
+  }, []);
+
+  // Replace the state and clear the history (e.g. after loading a project)
+  const reset = useCallback((value: T) => {
+    lastChangeRef.current = null;
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  return {
+    present: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+}
+
+// Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) bindings, ignored while typing in a text field
+export function useUndoRedoShortcuts(undo: () => void, redo: () => void, enabled = true) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
+        return;
+      }
+
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, enabled]);
+}
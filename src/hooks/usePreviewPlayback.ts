@@ -1,13 +1,21 @@
 // src/hooks/usePreviewPlayback.ts
 
 import { useRef, useState, useEffect } from 'react';
-import { MediaItem } from '../types';
+import { ClipRange, MediaItem, Transition } from '../types';
 import { convertFileSrc } from '@tauri-apps/api/core';
+import {
+  getClipDuration,
+  getClipSpeed,
+  getItemStartTimes,
+  getTimelineDuration,
+  isClipAudible
+} from '../utils/timeline';
 
 interface UsePreviewPlaybackProps {
   mediaItems: MediaItem[];
   selectedItem: MediaItem | null;
   defaultPhotoDuration: number;
+  defaultTransition: Transition;
   onCurrentItemChange: (itemId: string) => void;
   onPreviewModeChange: (isPreview: boolean) => void;
 videoRef: React.RefObject<HTMLVideoElement | null>;
@@ -19,6 +27,7 @@ export function usePreviewPlayback({
   mediaItems,
   selectedItem,
   defaultPhotoDuration,
+  defaultTransition,
   onCurrentItemChange,
   onPreviewModeChange,
   videoRef,
@@ -37,7 +46,8 @@ export function usePreviewPlayback({
   const [playlist, setPlaylist] = useState<MediaItem[]>([]);
   const [currentMediaIndex, setCurrentMediaIndex] = useState(0);
   const [currentClipIndex, setCurrentClipIndex] = useState(0);
-  const [accumulatedTime, setAccumulatedTime] = useState(0);
+  // Where each playlist item starts in the combined video, transitions included
+  const [playlistStartTimes, setPlaylistStartTimes] = useState<number[]>([]);
 
   const buildPlaylist = (fromStart: boolean) => {
     const startIndex = fromStart ? 0 : mediaItems.findIndex(item => item.id === selectedItem?.id);
@@ -45,50 +55,32 @@ export function usePreviewPlayback({
     return mediaItems.slice(startIndex);
   };
 
-  const calculateTotalDuration = (items: MediaItem[]) => {
-    return items.reduce((total, item) => {
-      if (item.type === 'video') {
-        if (item.clips && item.clips.length > 0) {
-          return total + item.clips.reduce((sum, clip) => sum + (clip.end - clip.start), 0);
-        }
-        return total + (item.duration || 0);
-      } else {
-        return total + (item.photoDuration ?? defaultPhotoDuration);
-      }
-    }, 0);
-  };
-
-  const getCurrentItemDuration = (item: MediaItem) => {
-    if (item.type === 'video') {
-      if (item.clips && item.clips.length > 0) {
-        return item.clips.reduce((sum, clip) => sum + (clip.end - clip.start), 0);
-      }
-      return item.duration || 0;
-    } else {
-      return item.photoDuration ?? defaultPhotoDuration;
-    }
+  // Plays a clip at its speed, silenced like the render when it's too fast or slow to hear
+  const applyClipSpeed = (clip: ClipRange | undefined) => {
+    if (!videoRef.current) return;
+    videoRef.current.playbackRate = clip ? getClipSpeed(clip) : 1;
+    videoRef.current.muted = clip ? !isClipAudible(clip) : false;
   };
 
   const handleStartPreview = (fromStart: boolean) => {
     const newPlaylist = buildPlaylist(fromStart);
     if (newPlaylist.length === 0) return;
 
+    // Times match the rendered video, where transitions overlap neighbouring items
     const startIndex = fromStart ? 0 : mediaItems.findIndex(item => item.id === selectedItem?.id);
-    const timeBeforeStart = mediaItems.slice(0, Math.max(0, startIndex)).reduce((sum, item) => {
-      return sum + getCurrentItemDuration(item);
-    }, 0);
+    const startTimes = getItemStartTimes(mediaItems, defaultPhotoDuration, defaultTransition).slice(startIndex);
     
-    console.log(`Starting from index ${startIndex}, time before start: ${timeBeforeStart}s`);
+    console.log(`Starting from index ${startIndex}, time before start: ${startTimes[0]}s`);
     
     setPlaylist(newPlaylist);
     playlistRef.current = newPlaylist;
     setCurrentMediaIndex(0);
     setCurrentClipIndex(0);
-    setAccumulatedTime(timeBeforeStart);
+    setPlaylistStartTimes(startTimes);
     setIsPreviewMode(true);
     isPreviewModeRef.current = true;
     onPreviewModeChange(true);
-    setTotalDuration(calculateTotalDuration(mediaItems));
+    setTotalDuration(getTimelineDuration(mediaItems, defaultPhotoDuration, defaultTransition));
     loadMediaAtIndex(newPlaylist, 0);
   };
 
@@ -120,6 +112,7 @@ export function usePreviewPlayback({
           } else {
             videoRef.current.currentTime = 0;
           }
+          applyClipSpeed(item.clips?.[0]);
           videoRef.current.play().catch(err => console.error('Play error:', err));
           setIsPlaying(true);
         }
@@ -131,28 +124,19 @@ export function usePreviewPlayback({
         videoRef.current.src = '';
       }
       
-      const { invoke } = await import('@tauri-apps/api/core');
-      try {
-        const fullImageSrc = await invoke<string>('read_image_as_base64', { 
-          imagePath: item.filepath 
-        });
-        setImageSrc(fullImageSrc);
-        setIsPlaying(true);
+      setImageSrc(convertFileSrc(item.filepath));
+      setIsPlaying(true);
 
-        const duration = (item.photoDuration ?? defaultPhotoDuration) * 1000;
-        
-        photoTimerRef.current = window.setTimeout(() => {
-          if (!isPreviewModeRef.current) {
-            photoTimerRef.current = null;
-            return;
-          }
+      const duration = (item.photoDuration ?? defaultPhotoDuration) * 1000;
+      
+      photoTimerRef.current = window.setTimeout(() => {
+        if (!isPreviewModeRef.current) {
           photoTimerRef.current = null;
-          advanceToNextItem();
-        }, duration);
-      } catch (error) {
-        console.error('Error loading image:', error);
+          return;
+        }
+        photoTimerRef.current = null;
         advanceToNextItem();
-      }
+      }, duration);
     }
   };
 
@@ -172,12 +156,6 @@ export function usePreviewPlayback({
         return prev;
       }
       
-      const currentItem = currentPlaylist[prev];
-      if (currentItem) {
-        const itemDuration = getCurrentItemDuration(currentItem);
-        setAccumulatedTime(accTime => accTime + itemDuration);
-      }
-      
       setTimeout(() => {
         if (!isPreviewModeRef.current) {
           isAdvancingRef.current = false;
@@ -211,32 +189,25 @@ export function usePreviewPlayback({
     if (currentItem.clips && currentItem.clips.length > 0) {
       const clip = currentItem.clips[currentClipIndex];
       if (clip) {
-        const clipElapsed = videoRef.current.currentTime - clip.start;
+        const clipElapsed = (videoRef.current.currentTime - clip.start) / getClipSpeed(clip);
         const clipsBeforeCurrent = currentItem.clips.slice(0, currentClipIndex).reduce((sum, c) => {
-          return sum + (c.end - c.start);
+          return sum + getClipDuration(c);
         }, 0);
         
-        const playlistDuration = playlist.slice(0, currentMediaIndex).reduce((sum, item) => {
-          return sum + getCurrentItemDuration(item);
-        }, 0);
-        
-        setCurrentTime(accumulatedTime + playlistDuration + clipsBeforeCurrent + clipElapsed);
+        setCurrentTime((playlistStartTimes[currentMediaIndex] ?? 0) + clipsBeforeCurrent + clipElapsed);
 
         if (videoRef.current.currentTime >= clip.end) {
           if (currentClipIndex < currentItem.clips.length - 1) {
             setCurrentClipIndex(currentClipIndex + 1);
             videoRef.current.currentTime = currentItem.clips[currentClipIndex + 1].start;
+            applyClipSpeed(currentItem.clips[currentClipIndex + 1]);
           } else {
             moveToNextMedia();
           }
         }
       }
     } else {
-      const playlistDuration = playlist.slice(0, currentMediaIndex).reduce((sum, item) => {
-        return sum + getCurrentItemDuration(item);
-      }, 0);
-      
-      setCurrentTime(accumulatedTime + playlistDuration + videoRef.current.currentTime);
+      setCurrentTime((playlistStartTimes[currentMediaIndex] ?? 0) + videoRef.current.currentTime);
       
       if (videoRef.current.currentTime >= (videoRef.current.duration - 0.1)) {
         moveToNextMedia();
@@ -257,6 +228,7 @@ export function usePreviewPlayback({
     if (videoRef.current) {
       videoRef.current.pause();
       videoRef.current.src = '';
+      applyClipSpeed(undefined);
     }
 
     setIsPreviewMode(false);
@@ -265,7 +237,7 @@ export function usePreviewPlayback({
     setPlaylist([]);
     setCurrentMediaIndex(0);
     setCurrentClipIndex(0);
-    setAccumulatedTime(0);
+    setPlaylistStartTimes([]);
     setCurrentTime(0);
     setVideoSrc('');
     setImageSrc('');
@@ -0,0 +1,160 @@
+// src/hooks/useRenderQueue.ts
+
+import { useEffect, useRef, useState } from 'react';
+import { RenderProgress } from '../utils/ffmpegProgress';
+import { RenderJob, createRenderJob, isRenderCancelled, isRenderItemError } from '../utils/renderJob';
+import {
+  QueueJob,
+  appendLog,
+  loadRenderQueue,
+  runQueueJob,
+  saveRenderQueue
+} from '../utils/renderQueue';
+
+export interface QueueProgress {
+  jobId: string;
+  phase: string;
+  progress: RenderProgress;
+}
+
+export interface RenderQueue {
+  jobs: QueueJob[];
+  isProcessing: boolean;
+  // The job being rendered right now, if any
+  activeJob: QueueJob | null;
+  progress: QueueProgress | null;
+  addJob: (job: QueueJob) => void;
+  removeJob: (id: string) => void;
+  moveJob: (id: string, offset: number) => void;
+  pauseJob: (id: string) => void;
+  resumeJob: (id: string) => void;
+  clearFinished: () => void;
+  start: () => void;
+  // Stops after the running job; that job finishes first
+  stop: () => void;
+}
+
+// The queue lives at the app level so it keeps running while its window is closed.
+// Jobs are rendered one at a time, in list order, skipping paused ones. Jobs for the project
+// the app is rendering itself (`busyProjectPath`) wait until that render is over.
+export function useRenderQueue(
+  maxParallelJobs: number,
+  busyProjectPath: string | null,
+  onJobFinished?: (job: QueueJob) => void
+): RenderQueue {
+  const [jobs, setJobs] = useState<QueueJob[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<QueueProgress | null>(null);
+
+  const activeRef = useRef<{ jobId: string; renderJob: RenderJob } | null>(null);
+  const onJobFinishedRef = useRef(onJobFinished);
+  onJobFinishedRef.current = onJobFinished;
+
+  const updateJob = (id: string, update: (job: QueueJob) => QueueJob) => {
+    setJobs(current => current.map(job => job.id === id ? update(job) : job));
+  };
+
+  useEffect(() => {
+    loadRenderQueue()
+      .then(setJobs)
+      .catch(error => console.error('Error loading render queue:', error))
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    saveRenderQueue(jobs).catch(error => console.error('Error saving render queue:', error));
+  }, [jobs, isLoaded]);
+
+  const runJob = async (job: QueueJob) => {
+    const renderJob = createRenderJob('export');
+    activeRef.current = { jobId: job.id, renderJob };
+    setActiveJobId(job.id);
+    updateJob(job.id, current => appendLog(
+      { ...current, status: 'running', error: undefined },
+      'Started'
+    ));
+
+    try {
+      const outputPath = await runQueueJob(job, {
+        renderJob,
+        maxParallelJobs,
+        onProgress: (phase, jobProgress) => setProgress({ jobId: job.id, phase, progress: jobProgress }),
+        log: message => updateJob(job.id, current => appendLog(current, message))
+      });
+      updateJob(job.id, current => ({ ...current, status: 'done', outputPath }));
+      onJobFinishedRef.current?.(job);
+    } catch (error) {
+      if (isRenderCancelled(error)) {
+        // Pausing and removing both cancel the running job; a removed job is no longer in the list
+        updateJob(job.id, current => appendLog({ ...current, status: 'paused' }, 'Paused'));
+      } else {
+        console.error('Render queue job failed:', error);
+        const message = error instanceof Error ? error.message : String(error);
+        updateJob(job.id, current => {
+          const failed = appendLog({ ...current, status: 'failed', error: message }, `Failed: ${message}`);
+          return isRenderItemError(error) && error.logPath ? appendLog(failed, `Render log: ${error.logPath}`) : failed;
+        });
+      }
+    } finally {
+      await renderJob.finish();
+      activeRef.current = null;
+      setActiveJobId(null);
+      setProgress(null);
+    }
+  };
+
+  // Start the next queued job whenever nothing is running
+  useEffect(() => {
+    if (!isLoaded || !isProcessing || activeJobId) return;
+    const queued = jobs.filter(job => job.status === 'queued');
+    if (queued.length === 0) {
+      setIsProcessing(false);
+      return;
+    }
+    const next = queued.find(job => job.projectPath !== busyProjectPath);
+    if (next) runJob(next);
+  }, [isLoaded, isProcessing, activeJobId, jobs, busyProjectPath]);
+
+  const cancelActive = (id: string) => {
+    const active = activeRef.current;
+    if (active?.jobId !== id) return false;
+    active.renderJob.cancel().catch(error => console.error('Error cancelling render:', error));
+    return true;
+  };
+
+  return {
+    jobs,
+    isProcessing,
+    activeJob: jobs.find(job => job.id === activeJobId) ?? null,
+    progress,
+    addJob: job => setJobs(current => [...current, job]),
+    removeJob: id => {
+      cancelActive(id);
+      setJobs(current => current.filter(job => job.id !== id));
+    },
+    moveJob: (id, offset) => setJobs(current => {
+      const index = current.findIndex(job => job.id === id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= current.length) return current;
+      const reordered = [...current];
+      const [moved] = reordered.splice(index, 1);
+      reordered.splice(target, 0, moved);
+      return reordered;
+    }),
+    pauseJob: id => {
+      if (cancelActive(id)) return;
+      updateJob(id, job => job.status === 'queued' ? appendLog({ ...job, status: 'paused' }, 'Paused') : job);
+    },
+    resumeJob: id => updateJob(id, job =>
+      job.status === 'paused' || job.status === 'failed' || job.status === 'done'
+        ? appendLog({ ...job, status: 'queued', error: undefined }, 'Queued')
+        : job
+    ),
+    clearFinished: () => setJobs(current => current.filter(job => job.status !== 'done')),
+    start: () => setIsProcessing(true),
+    stop: () => setIsProcessing(false)
+  };
+}
@@ -0,0 +1,40 @@
+// src/hooks/useThumbnails.ts
+
+import { useEffect, useRef, useState } from 'react';
+import { invoke, convertFileSrc } from '@tauri-apps/api/core';
+import { MediaItem } from '../types';
+
+// Thumbnail URLs by media file path. Thumbnails live in an on-disk cache and are served
+// through the asset protocol, so neither React state nor the project file holds image data.
+export function useThumbnails(mediaItems: Pick<MediaItem, 'filepath' | 'type'>[]): Record<string, string> {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const requestedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    const pending = new Map<string, MediaItem['type']>();
+    for (const item of mediaItems) {
+      if (!requestedRef.current.has(item.filepath)) {
+        requestedRef.current.add(item.filepath);
+        pending.set(item.filepath, item.type);
+      }
+    }
+    if (pending.size === 0) return;
+
+    const loadThumbnails = async () => {
+      for (const [filepath, type] of pending) {
+        try {
+          const thumbnailPath = await invoke<string>('get_thumbnail', {
+            mediaPath: filepath,
+            isVideo: type === 'video'
+          });
+          setThumbnails(prev => ({ ...prev, [filepath]: convertFileSrc(thumbnailPath) }));
+        } catch (error) {
+          console.error('Error generating thumbnail for', filepath, error);
+        }
+      }
+    };
+    loadThumbnails();
+  }, [mediaItems]);
+
+  return thumbnails;
+}
@@ -4,6 +4,58 @@ export interface ClipRange {
   id: string;
   start: number;
   end: number;
+  speed?: number; // Playback speed, e.g. 0.25 for slow motion or 8 for a timelapse (undefined = 1)
+}
+
+export type TransitionType = 'none' | 'crossfade' | 'dip-black' | 'dip-white' | 'wipe';
+
+export interface Transition {
+  type: TransitionType;
+  duration: number; // Seconds the two items overlap
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// A left-to-right mirror (when flip is set) followed by a clockwise rotation
+export interface Orientation {
+  rotation: Rotation;
+  flip: boolean;
+}
+
+// How a source that doesn't match the output aspect ratio fills the frame: whole with black
+// bars, whole over a blurred copy of itself, or cropped to cover the frame
+export type FramingMode = 'fit' | 'blur' | 'fill';
+
+// Which part of the source stays in view when 'fill' crops it, as fractions (0.5 = centre)
+export interface CropPosition {
+  x: number;
+  y: number;
+}
+
+export type PhotoMotionType =
+  | 'none'
+  | 'zoom-in'
+  | 'zoom-out'
+  | 'pan-left'
+  | 'pan-right'
+  | 'pan-up'
+  | 'pan-down'
+  | 'random'
+  | 'custom';
+
+// Part of the output frame shown, as fractions of the frame. The rectangle keeps the frame's
+// aspect ratio, so one size covers both width and height (1 = the whole frame).
+export interface MotionRect {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface PhotoMotion {
+  type: PhotoMotionType;
+  // Framing at the start and end of the photo, used by 'custom'
+  start?: MotionRect;
+  end?: MotionRect;
 }
 
 export interface MediaItem {
@@ -13,11 +65,17 @@ export interface MediaItem {
   type: 'video' | 'image';
   duration?: number; // Video duration in seconds
   resolution?: string;
+  frameRate?: string; // Source frame rate as a rational, e.g. "30000/1001"
   photoDuration?: number; // Photo display duration in seconds (undefined = use default)
-  thumbnail?: string;
   dateCreated: Date;
   caption: string;
   showCaption: boolean;
   order: number;
   clips?: ClipRange[];
+  sourceOrientation?: Orientation; // Turns the file upright, from video rotation metadata or photo EXIF (undefined = upright)
+  orientation?: Orientation; // Rotation and flip chosen by the user, applied after the source's (undefined = none)
+  transition?: Transition; // Transition into the next item (undefined = use the project default)
+  motion?: PhotoMotion; // Ken Burns pan and zoom for photos (undefined = static)
+  framing?: FramingMode; // undefined = use the project default
+  cropPosition?: CropPosition; // Used when the item is cropped (undefined = centred)
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+// src/utils/autosave.ts
+// Periodic recovery files for crash protection
+
+import { appDataDir } from '@tauri-apps/api/path';
+import { exists, mkdir, readTextFile, remove, stat, writeTextFile } from '@tauri-apps/plugin-fs';
+import { ProjectData, parseProject, serializeProject } from './projectFile';
+import { joinPath } from './paths';
+
+export const AUTOSAVE_INTERVAL_MS = 60 * 1000;
+
+const RECOVERY_EXTENSION = '.recovery';
+const UNTITLED_RECOVERY_FILENAME = 'Untitled.cjproj.recovery';
+
+export interface RecoveryInfo {
+  recoveryPath: string;
+  projectPath: string | null;
+  modified: Date;
+}
+
+// Saved projects get a sidecar next to the .cjproj, untitled ones live in the app data dir
+export async function getRecoveryPath(projectPath: string | null): Promise<string> {
+  if (projectPath) {
+    return projectPath + RECOVERY_EXTENSION;
+  }
+  return joinPath(await appDataDir(), UNTITLED_RECOVERY_FILENAME);
+}
+
+export async function writeRecoveryFile(projectPath: string | null, data: ProjectData): Promise<void> {
+  const recoveryPath = await getRecoveryPath(projectPath);
+
+  if (!projectPath) {
+    const dataDir = await appDataDir();
+    if (!(await exists(dataDir))) {
+      await mkdir(dataDir, { recursive: true });
+    }
+  }
+
+  // Relative paths inside the recovery file resolve against its own folder,
+  // which is the project folder for sidecars
+  await writeTextFile(recoveryPath, serializeProject(data, projectPath ?? recoveryPath));
+}
+
+export async function removeRecoveryFile(projectPath: string | null): Promise<void> {
+  try {
+    const recoveryPath = await getRecoveryPath(projectPath);
+    if (await exists(recoveryPath)) {
+      await remove(recoveryPath);
+    }
+  } catch (error) {
+    console.error('Error removing recovery file:', error);
+  }
+}
+
+// Returns the recovery file for a project if it holds work newer than the project itself
+export async function findRecovery(projectPath: string | null): Promise<RecoveryInfo | null> {
+  const recoveryPath = await getRecoveryPath(projectPath);
+  if (!(await exists(recoveryPath))) return null;
+
+  const recoveryInfo = await stat(recoveryPath);
+  const modified = recoveryInfo.mtime ?? new Date();
+
+  if (projectPath && (await exists(projectPath))) {
+    const projectInfo = await stat(projectPath);
+    if (projectInfo.mtime && projectInfo.mtime >= modified) {
+      // Project was saved after the last autosave, the recovery file is stale
+      await removeRecoveryFile(projectPath);
+      return null;
+    }
+  }
+
+  return { recoveryPath, projectPath, modified };
+}
+
+export async function loadRecoveryFile(recovery: RecoveryInfo): Promise<ProjectData> {
+  const content = await readTextFile(recovery.recoveryPath);
+  return parseProject(content, recovery.projectPath ?? recovery.recoveryPath);
+}
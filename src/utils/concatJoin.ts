@@ -0,0 +1,93 @@
+// src/utils/concatJoin.ts
+// Joining preprocessed items with the concat demuxer, which copies streams instead of re-encoding
+
+import { invoke } from '@tauri-apps/api/core';
+import { writeTextFile } from '@tauri-apps/plugin-fs';
+
+interface ProbedStream {
+  codec_type?: string;
+  codec_name?: string;
+  profile?: string;
+  width?: number;
+  height?: number;
+  pix_fmt?: string;
+  r_frame_rate?: string;
+  time_base?: string;
+  sample_rate?: string;
+  channels?: number;
+  channel_layout?: string;
+}
+
+async function probeStreams(path: string): Promise<ProbedStream[] | null> {
+  try {
+    const output = await invoke<string>('get_stream_info', { path });
+    return JSON.parse(output).streams ?? [];
+  } catch (error) {
+    console.error(`Could not probe ${path}:`, error);
+    return null;
+  }
+}
+
+// Everything the concat demuxer needs to be identical across files
+function getStreamLayout(streams: ProbedStream[]): string {
+  return JSON.stringify(streams.map(stream => [
+    stream.codec_type,
+    stream.codec_name,
+    stream.profile,
+    stream.width,
+    stream.height,
+    stream.pix_fmt,
+    stream.r_frame_rate,
+    stream.time_base,
+    stream.sample_rate,
+    stream.channels,
+    stream.channel_layout
+  ]));
+}
+
+// Whether the files can be joined by stream copy: one video and one audio stream each,
+// with matching codecs, dimensions, pixel format, frame rate, time base and audio layout
+export async function canStreamCopyConcat(paths: string[]): Promise<boolean> {
+  let expected: string | null = null;
+
+  for (const path of new Set(paths)) {
+    const streams = await probeStreams(path);
+    if (!streams) return false;
+
+    const kinds = streams.map(stream => stream.codec_type).sort();
+    if (kinds.join(',') !== 'audio,video') {
+      console.log(`${path} doesn't have exactly one video and one audio stream`);
+      return false;
+    }
+
+    const layout = getStreamLayout(streams);
+    if (expected === null) {
+      expected = layout;
+    } else if (layout !== expected) {
+      console.log(`${path} doesn't match the other items: ${layout} vs ${expected}`);
+      return false;
+    }
+  }
+
+  return expected !== null;
+}
+
+// Writes a concat demuxer list and returns the ffmpeg arguments that join its files by stream copy
+export async function buildStreamCopyConcatArgs(
+  paths: string[],
+  listPath: string,
+  outputPath: string
+): Promise<string[]> {
+  // Single quotes can't be escaped inside a quoted string, so they close it, add an escaped quote and reopen it
+  const list = paths.map(path => `file '${path.replace(/'/g, `'\\''`)}'`).join('\n');
+  await writeTextFile(listPath, list + '\n');
+
+  return [
+    '-f', 'concat',
+    '-safe', '0',
+    '-i', listPath,
+    '-c', 'copy',
+    '-y',
+    outputPath
+  ];
+}
@@ -0,0 +1,17 @@
+// src/utils/encoderSettings.ts
+// Kept apart from ffmpeg.ts so the render cache and project hashing can use them without
+// pulling the ffmpeg module into the main bundle
+
+// Encoder settings for the per-item temp files and the combined video. These are part of
+// the render cache key, so changing them invalidates previously combined videos.
+export const INTERMEDIATE_ENCODER_SETTINGS = {
+  videoCodec: 'libx264',
+  preset: 'ultrafast',
+  crf: 18,
+  pixelFormat: 'yuv420p',
+  colorSpace: 'bt709',
+  audioCodec: 'aac',
+  audioBitrate: '192k'
+};
+
+export type EncoderSettings = typeof INTERMEDIATE_ENCODER_SETTINGS;
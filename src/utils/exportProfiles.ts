@@ -0,0 +1,168 @@
+// src/utils/exportProfiles.ts
+// Encoder profiles for the final export. The combined video is a fast intermediate; the
+// export re-encodes it once with the codec, container and quality the user picked.
+
+export type OutputFormat = 'MP4' | 'MOV' | 'WebM' | 'AVI';
+export type ExportCodec = 'h264' | 'h265' | 'vp9' | 'av1' | 'prores';
+export type QualityPreset = 'fast' | 'balanced' | 'quality';
+export type RateControl = 'crf' | 'bitrate';
+
+export interface ExportSettings {
+  codec: ExportCodec;
+  preset: QualityPreset;
+  rateControl: RateControl;
+  // Constant quality level; lower is better. Scale depends on the codec.
+  crf: number;
+  bitrateKbps: number;
+}
+
+interface CodecProfile {
+  label: string;
+  // ProRes quality is set by its profile alone
+  supportsRateControl: boolean;
+  crfRange: [number, number];
+  defaultCrf: number;
+  defaultBitrateKbps: number;
+}
+
+export const EXPORT_CODECS: Record<ExportCodec, CodecProfile> = {
+  h264: { label: 'H.264', supportsRateControl: true, crfRange: [0, 51], defaultCrf: 20, defaultBitrateKbps: 12000 },
+  h265: { label: 'H.265 / HEVC', supportsRateControl: true, crfRange: [0, 51], defaultCrf: 24, defaultBitrateKbps: 8000 },
+  vp9: { label: 'VP9', supportsRateControl: true, crfRange: [0, 63], defaultCrf: 32, defaultBitrateKbps: 8000 },
+  av1: { label: 'AV1', supportsRateControl: true, crfRange: [0, 63], defaultCrf: 32, defaultBitrateKbps: 6000 },
+  prores: { label: 'ProRes 422', supportsRateControl: false, crfRange: [0, 0], defaultCrf: 0, defaultBitrateKbps: 0 }
+};
+
+export const OUTPUT_FORMATS: { value: OutputFormat; extension: string; codecs: ExportCodec[] }[] = [
+  { value: 'MP4', extension: 'mp4', codecs: ['h264', 'h265', 'av1'] },
+  { value: 'MOV', extension: 'mov', codecs: ['h264', 'h265', 'prores'] },
+  { value: 'WebM', extension: 'webm', codecs: ['vp9', 'av1'] },
+  { value: 'AVI', extension: 'avi', codecs: ['h264'] }
+];
+
+export const QUALITY_PRESETS: { value: QualityPreset; label: string }[] = [
+  { value: 'fast', label: 'Fast' },
+  { value: 'balanced', label: 'Balanced' },
+  { value: 'quality', label: 'Best quality' }
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  codec: 'h264',
+  preset: 'balanced',
+  rateControl: 'crf',
+  crf: EXPORT_CODECS.h264.defaultCrf,
+  bitrateKbps: EXPORT_CODECS.h264.defaultBitrateKbps
+};
+
+// Projects store the format as a plain string; anything unknown exports as MP4
+function getFormat(format: string) {
+  return OUTPUT_FORMATS.find(entry => entry.value.toLowerCase() === format.toLowerCase()) ?? OUTPUT_FORMATS[0];
+}
+
+export function getOutputExtension(format: string): string {
+  return getFormat(format).extension;
+}
+
+export function getFormatCodecs(format: string): ExportCodec[] {
+  return getFormat(format).codecs;
+}
+
+// Settings for a different codec, with the quality values reset to that codec's scale
+export function withCodec(settings: ExportSettings, codec: ExportCodec): ExportSettings {
+  if (settings.codec === codec) return settings;
+  return {
+    ...settings,
+    codec,
+    crf: EXPORT_CODECS[codec].defaultCrf,
+    bitrateKbps: EXPORT_CODECS[codec].defaultBitrateKbps
+  };
+}
+
+// Switches to the format's first codec when the current one can't go in that container
+export function fitExportSettings(format: string, settings: ExportSettings): ExportSettings {
+  const codecs = getFormatCodecs(format);
+  return codecs.includes(settings.codec) ? settings : withCodec(settings, codecs[0]);
+}
+
+export function describeExportSettings(format: string, settings: ExportSettings): string {
+  const profile = EXPORT_CODECS[settings.codec];
+  const preset = QUALITY_PRESETS.find(entry => entry.value === settings.preset)?.label ?? settings.preset;
+  const rate = !profile.supportsRateControl ? null :
+    settings.rateControl === 'crf' ? `CRF ${settings.crf}` : `${settings.bitrateKbps} kbps`;
+  return [getFormat(format).value, profile.label, preset, rate].filter(Boolean).join(' · ');
+}
+
+function rateControlArgs(settings: ExportSettings): string[] {
+  if (settings.rateControl === 'bitrate') {
+    return ['-b:v', `${Math.round(settings.bitrateKbps)}k`];
+  }
+  // libvpx only treats -crf as constant quality when the bitrate target is zero
+  return settings.codec === 'vp9'
+    ? ['-crf', String(settings.crf), '-b:v', '0']
+    : ['-crf', String(settings.crf)];
+}
+
+export function buildExportVideoArgs(settings: ExportSettings): string[] {
+  const { codec, preset } = settings;
+  switch (codec) {
+    case 'h264':
+      return [
+        '-c:v', 'libx264',
+        '-preset', { fast: 'veryfast', balanced: 'medium', quality: 'slow' }[preset],
+        '-pix_fmt', 'yuv420p',
+        ...rateControlArgs(settings)
+      ];
+    case 'h265':
+      return [
+        '-c:v', 'libx265',
+        '-preset', { fast: 'veryfast', balanced: 'medium', quality: 'slow' }[preset],
+        '-pix_fmt', 'yuv420p',
+        // Apple players only recognise HEVC tagged as hvc1
+        '-tag:v', 'hvc1',
+        ...rateControlArgs(settings)
+      ];
+    case 'vp9':
+      return [
+        '-c:v', 'libvpx-vp9',
+        '-deadline', 'good',
+        '-cpu-used', { fast: '4', balanced: '2', quality: '1' }[preset],
+        '-row-mt', '1',
+        '-pix_fmt', 'yuv420p',
+        ...rateControlArgs(settings)
+      ];
+    case 'av1':
+      return [
+        '-c:v', 'libsvtav1',
+        '-preset', { fast: '10', balanced: '8', quality: '5' }[preset],
+        '-pix_fmt', 'yuv420p',
+        ...rateControlArgs(settings)
+      ];
+    case 'prores':
+      return [
+        '-c:v', 'prores_ks',
+        // LT, standard and HQ
+        '-profile:v', { fast: '1', balanced: '2', quality: '3' }[preset],
+        '-vendor', 'apl0',
+        '-pix_fmt', 'yuv422p10le'
+      ];
+  }
+}
+
+// Audio codec the container expects: PCM alongside ProRes, Opus in WebM, MP3 in AVI, AAC otherwise
+export function buildExportAudioArgs(format: string, settings: ExportSettings): string[] {
+  if (settings.codec === 'prores') return ['-c:a', 'pcm_s16le'];
+  switch (getFormat(format).value) {
+    case 'WebM':
+      return ['-c:a', 'libopus', '-b:a', '160k'];
+    case 'AVI':
+      return ['-c:a', 'libmp3lame', '-b:a', '192k'];
+    default:
+      return ['-c:a', 'aac', '-b:a', '192k'];
+  }
+}
+
+export function buildContainerArgs(format: string): string[] {
+  const { value } = getFormat(format);
+  // Moves the index to the front so players can start before the whole file has loaded
+  return value === 'MP4' || value === 'MOV' ? ['-movflags', '+faststart'] : [];
+}
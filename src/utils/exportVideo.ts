@@ -0,0 +1,102 @@
+// src/utils/exportVideo.ts
+// Final export: mixes the music tracks into the combined video and encodes it with the export profile
+
+import { AudioTrack } from '../components/AudioTimeline';
+import { RenderProgress, createProgressTracker } from './ffmpegProgress';
+import { RenderJob } from './renderJob';
+import {
+  ExportSettings,
+  buildContainerArgs,
+  buildExportAudioArgs,
+  buildExportVideoArgs
+} from './exportProfiles';
+
+// The combined video's own audio is ducked under the music. Track fades are clamped to the
+// trimmed track length, so short tracks never get a fade starting before zero.
+export async function mergeVideoWithAudio(
+  videoPath: string,
+  audioTracks: AudioTrack[],
+  outputPath: string,
+  format: string,
+  settings: ExportSettings,
+  videoDuckingPercent: number,
+  videoDuration: number,
+  onProgress: (progress: RenderProgress) => void,
+  renderJob: RenderJob
+): Promise<void> {
+  const tracker = createProgressTracker(videoDuration, onProgress, renderJob);
+  // The combined video is a fast intermediate, the export encodes it with the chosen profile
+  const encoderArgs = [
+    ...buildExportVideoArgs(settings),
+    ...buildExportAudioArgs(format, settings),
+    ...buildContainerArgs(format)
+  ];
+
+  if (audioTracks.length === 0) {
+    await tracker.run('Encoding video', videoDuration, [
+      '-i', videoPath,
+      '-map', '0:v',
+      '-map', '0:a',
+      ...encoderArgs,
+      '-y',
+      outputPath
+    ]);
+    return;
+  }
+  
+  const inputs = ['-i', videoPath];
+  audioTracks.forEach(track => inputs.push('-i', track.filepath));
+
+  const audioFilters: string[] = [];
+  
+  // Process music tracks
+  audioTracks.forEach((track, i) => {
+    const inputIdx = i + 1;
+    const trackDuration = track.fullDuration - track.clipStart - track.clipEnd;
+    
+    let filterChain = `[${inputIdx}:a]`;
+    
+    if (track.clipStart > 0 || track.clipEnd > 0) {
+      const trimEnd = track.fullDuration - track.clipEnd;
+      filterChain += `atrim=start=${track.clipStart}:end=${trimEnd},asetpts=PTS-STARTPTS,`;
+    }
+    
+    // FIX: Only add fade-in if duration is positive
+    if ((track.fadeInDuration || 0) > 0 && trackDuration > 0) {
+      filterChain += `afade=t=in:st=0:d=${Math.min(track.fadeInDuration, trackDuration)},`;
+    }
+    
+    // FIX: Calculate fade-out correctly
+    if ((track.fadeOutDuration || 0) > 0 && trackDuration > 0) {
+      const fadeOutStart = Math.max(0, trackDuration - track.fadeOutDuration);
+      const fadeOutDuration = Math.min(track.fadeOutDuration, trackDuration);
+      filterChain += `afade=t=out:st=${fadeOutStart}:d=${fadeOutDuration},`;
+    }
+    
+    filterChain += `volume=${track.volume},adelay=${Math.round(track.timelineStart * 1000)}|${Math.round(track.timelineStart * 1000)}[a${i}]`;
+    audioFilters.push(filterChain);
+  });
+
+  // Simple video audio ducking
+  const duckingVolume = videoDuckingPercent / 100;
+  audioFilters.push(`[0:a]volume=${duckingVolume},aformat=sample_rates=48000:channel_layouts=stereo[va]`);
+
+  // Mix everything
+  const mixInputs = ['[va]', ...audioTracks.map((_, i) => `[a${i}]`)].join('');
+  const mixFilter = `${mixInputs}amix=inputs=${audioTracks.length + 1}:duration=first:normalize=0[aout]`;
+
+  const filterComplex = audioFilters.join(';') + ';' + mixFilter;
+
+  const args = [
+    ...inputs,
+    '-filter_complex', filterComplex,
+    '-map', '0:v',
+    '-map', '[aout]',
+    ...encoderArgs,
+    '-y',
+    outputPath
+  ];
+
+  console.log('FFmpeg export args:', args);
+  await tracker.run('Encoding video and mixing audio', videoDuration, args);
+}
@@ -1,10 +1,38 @@
 // src/utils/ffmpeg.ts
-// Auto-detects highest frame rate and normalizes all content to match
+// Normalizes all content to one resolution and frame rate (by default the one most of the footage was shot at)
 
 import { invoke } from '@tauri-apps/api/core';
-import { exists, mkdir, remove } from '@tauri-apps/plugin-fs';
-import { MediaItem } from '../types';
+import { exists, mkdir, remove, rename } from '@tauri-apps/plugin-fs';
+import { CropPosition, FramingMode, MediaItem, MotionRect, Orientation, Transition } from '../types';
 import { CaptionSettings } from '../components/Captionsettingsmodal';
+import {
+  ItemRenderSettings,
+  getSourceFingerprint,
+  getItemCacheKey,
+  getCachedItemPath,
+  pruneRenderCache,
+  removeIncompleteFiles
+} from './renderCache';
+import { INTERMEDIATE_ENCODER_SETTINGS } from './encoderSettings';
+import { JobPool, createJobPool, settleAll } from './jobPool';
+import { ProgressTracker, RenderProgress, createProgressTracker } from './ffmpegProgress';
+import { RenderJob, RenderCancelledError, RenderItemError, isRenderCancelled } from './renderJob';
+import { createRenderLog, summarizeFfmpegError } from './renderLog';
+import { buildStreamCopyConcatArgs, canStreamCopyConcat } from './concatJoin';
+import { formatFrameRate, getDominantFrameRate, parseFrameRate } from './frameRate';
+import { basename, dirname, joinPath } from './paths';
+import { DEFAULT_FRAMING, getItemFraming } from './framing';
+import { getMotionRects } from './photoMotion';
+import { getSourceToOutputOrientation } from './orientation';
+import {
+  getBoundaryTransitions,
+  getClipDuration,
+  getClipSpeed,
+  getItemDuration,
+  getTimelineDuration,
+  getXfadeName,
+  isClipAudible
+} from './timeline';
 
 interface CombineVideoOptions {
   mediaItems: MediaItem[];
@@ -13,11 +41,61 @@ interface CombineVideoOptions {
   defaultPhotoDuration: number;
   captionSettings: CaptionSettings;
   targetResolution?: string;
-  onProgress?: (percent: number) => void;
+  // Output frame rate as a rational like "30000/1001"; defaults to the dominant source rate
+  frameRate?: string;
+  // Used between items that don't set their own transition; defaults to a cut
+  defaultTransition?: Transition;
+  // Used for items that don't set their own framing; defaults to fitting with black bars
+  defaultFraming?: FramingMode;
+  // Number of ffmpeg processes run side by side while preprocessing items
+  maxParallelJobs?: number;
+  // Cancelling the job stops the render and removes its partial files
+  renderJob?: RenderJob;
+  onProgress?: (progress: RenderProgress) => void;
 }
 
-function buildCaptionFilter(item: MediaItem, captionSettings: CaptionSettings): string {
-  if (!item.showCaption || !item.caption) {
+function intermediateEncoderArgs(): string[] {
+  const settings = INTERMEDIATE_ENCODER_SETTINGS;
+  return [
+    '-c:v', settings.videoCodec,
+    '-preset', settings.preset,
+    '-pix_fmt', settings.pixelFormat,
+    '-colorspace', settings.colorSpace,
+    '-color_primaries', settings.colorSpace,
+    '-color_trc', settings.colorSpace,
+    '-crf', String(settings.crf),
+    '-c:a', settings.audioCodec,
+    '-b:a', settings.audioBitrate
+  ];
+}
+
+// Escapes a path for use as a filter option value inside a -vf graph: once for the option
+// parser and once more for the graph parser. ffmpeg accepts "/" on every platform.
+function escapeFilterPath(path: string): string {
+  const optionValue = path
+    .replace(/\\/g, '/')
+    .replace(/:/g, '\\:')
+    .replace(/'/g, "\\'");
+  return optionValue.replace(/[\\'\[\],;]/g, match => `\\${match}`);
+}
+
+// Font file drawtext uses for captions, matched to the caption font settings by the system;
+// null when the system has no usable font, in which case captions are left out
+async function resolveCaptionFont(captionSettings: CaptionSettings): Promise<string | null> {
+  try {
+    return await invoke<string>('resolve_font_file', {
+      family: captionSettings.fontFamily,
+      bold: captionSettings.bold,
+      italic: captionSettings.italic
+    });
+  } catch (error) {
+    console.warn('No font found for captions, rendering without them:', error);
+    return null;
+  }
+}
+
+function buildCaptionFilter(item: MediaItem, captionSettings: CaptionSettings, fontFile: string | null): string {
+  if (!item.showCaption || !item.caption || !fontFile) {
     return '';
   }
 
@@ -42,11 +120,10 @@ function buildCaptionFilter(item: MediaItem, captionSettings: CaptionSettings):
   };
 
   const position = positions[captionSettings.position] || positions['bottom-center'];
-  const fontFile = 'C\\\\:/Windows/Fonts/arial.ttf';
 
   const drawtextFilter = 
     `drawtext=` +
-    `fontfile=${fontFile}:` +
+    `fontfile=${escapeFilterPath(fontFile)}:` +
     `text='${escapedCaption}':` +
     `fontsize=${fontSize}:` +
     `fontcolor=${fontColor}:` +
@@ -59,56 +136,241 @@ function buildCaptionFilter(item: MediaItem, captionSettings: CaptionSettings):
 }
 
 
+// filter_complex that joins inputs 0..n-1 into [outv][outa]. Runs of inputs separated by
+// cuts are concatenated, then neighbouring runs are overlapped by their transition.
+// Returns the length of the joined video as well.
+function buildJoinFilter(durations: number[], transitions: (Transition | null)[]): { filter: string; duration: number } {
+  const total = durations.reduce((sum, duration) => sum + duration, 0);
+  if (transitions.every(transition => transition === null)) {
+    return {
+      filter: durations.map((_, i) => `[${i}:v][${i}:a]`).join('') +
+        `concat=n=${durations.length}:v=1:a=1[outv][outa]`,
+      duration: total
+    };
+  }
+
+  const runs: number[][] = [[0]];
+  transitions.forEach((transition, i) => {
+    if (transition) {
+      runs.push([i + 1]);
+    } else {
+      runs[runs.length - 1].push(i + 1);
+    }
+  });
+
+  // xfade needs both inputs on the same time base
+  const parts = runs.map((run, r) => run.length === 1
+    ? `[${run[0]}:v]settb=AVTB[rv${r}];[${run[0]}:a]anull[ra${r}]`
+    : run.map(i => `[${i}:v][${i}:a]`).join('') +
+      `concat=n=${run.length}:v=1:a=1[cv${r}][ra${r}];[cv${r}]settb=AVTB[rv${r}]`
+  );
+  const runDurations = runs.map(run => run.reduce((sum, i) => sum + durations[i], 0));
+
+  let video = 'rv0';
+  let audio = 'ra0';
+  let length = runDurations[0];
+  for (let r = 1; r < runs.length; r++) {
+    const transition = transitions[runs[r][0] - 1]!;
+    const isLast = r === runs.length - 1;
+    const nextVideo = isLast ? 'outv' : `xv${r}`;
+    const nextAudio = isLast ? 'outa' : `xa${r}`;
+    const duration = transition.duration.toFixed(3);
+    const offset = Math.max(0, length - transition.duration).toFixed(3);
+    parts.push(
+      `[${video}][rv${r}]xfade=transition=${getXfadeName(transition.type)}:duration=${duration}:offset=${offset}[${nextVideo}]`,
+      `[${audio}][ra${r}]acrossfade=d=${duration}[${nextAudio}]`
+    );
+    video = nextVideo;
+    audio = nextAudio;
+    length += runDurations[r] - transition.duration;
+  }
+
+  return { filter: parts.join(';'), duration: length };
+}
+
+// Transition offsets are placed from the intermediates' real lengths, which can differ
+// slightly from the source metadata
+async function probeDurations(paths: string[], expected: number[]): Promise<number[]> {
+  const durations: number[] = [];
+  for (let i = 0; i < paths.length; i++) {
+    try {
+      durations.push(await invoke<number>('get_video_duration', { path: paths[i] }));
+    } catch (error) {
+      console.error(`Could not read the length of ${paths[i]}, using ${expected[i]}s:`, error);
+      durations.push(expected[i]);
+    }
+  }
+  return durations;
+}
+
+// ffmpeg filters for a mirror followed by a clockwise rotation
+function getOrientationFilters({ rotation, flip }: Orientation): string[] {
+  const turns: Record<number, string[]> = flip
+    ? { 0: ['hflip'], 90: ['hflip', 'transpose=clock'], 180: ['vflip'], 270: ['hflip', 'transpose=cclock'] }
+    : { 0: [], 90: ['transpose=clock'], 180: ['hflip', 'vflip'], 270: ['transpose=cclock'] };
+  return turns[rotation] ?? [];
+}
+
+// How a source file is turned upright plus the user's rotation and flip. When the source's
+// orientation is known, ffmpeg's autorotation is switched off and the filters do all of it,
+// since ffmpeg versions differ in whether they honour EXIF orientation. The rotation
+// metadata is then dropped so it isn't copied into the preprocessed file and applied again.
+function buildOrientationArgs(item: MediaItem): { inputArgs: string[]; filter: string; outputArgs: string[] } {
+  const orientation = getSourceToOutputOrientation(item);
+  if (!orientation) {
+    const filters = item.orientation ? getOrientationFilters(item.orientation) : [];
+    return { inputArgs: [], filter: filters.map(filter => `${filter},`).join(''), outputArgs: [] };
+  }
+
+  const filters = ['sidedata=mode=delete:type=DISPLAYMATRIX', ...getOrientationFilters(orientation)];
+  return {
+    inputArgs: ['-noautorotate'],
+    filter: filters.map(filter => `${filter},`).join(''),
+    outputArgs: ['-metadata:s:v:0', 'rotate=0']
+  };
+}
+
+// Blurred backgrounds are blurred at this fraction of the output size and scaled back up,
+// which is much cheaper than blurring at full size and looks the same
+const BLUR_BACKGROUND_SCALE = 1 / 8;
+
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+// Scales a source into a width x height frame with square pixels
+function buildFramingFilter(
+  framing: { mode: FramingMode; cropPosition: CropPosition | null },
+  width: number,
+  height: number
+): string {
+  if (framing.mode === 'fill') {
+    const { x, y } = framing.cropPosition ?? { x: 0.5, y: 0.5 };
+    return `scale=${width}:${height}:force_original_aspect_ratio=increase,` +
+      `crop=${width}:${height}:(iw-ow)*${x.toFixed(4)}:(ih-oh)*${y.toFixed(4)},setsar=1`;
+  }
+
+  if (framing.mode === 'blur') {
+    const blurWidth = toEven(width * BLUR_BACKGROUND_SCALE);
+    const blurHeight = toEven(height * BLUR_BACKGROUND_SCALE);
+    return `split[framing_bg][framing_fg];` +
+      `[framing_bg]scale=${blurWidth}:${blurHeight}:force_original_aspect_ratio=increase,` +
+      `crop=${blurWidth}:${blurHeight},boxblur=8:2,scale=${width}:${height},setsar=1[framing_blurred];` +
+      `[framing_fg]scale=${width}:${height}:force_original_aspect_ratio=decrease,setsar=1[framing_fitted];` +
+      `[framing_blurred][framing_fitted]overlay=(W-w)/2:(H-h)/2,setsar=1`;
+  }
+
+  return `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+    `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black,setsar=1`;
+}
+
+// Width photos are scaled up to before zoompan, which places its crop in whole pixels of
+// its input: at output size that shows as judder on slow pans
+const MOTION_WORKING_WIDTH = 7680;
+
+// Pan and zoom from one framing of the fitted photo to another over the photo's duration
+function buildMotionFilter(
+  rects: { start: MotionRect; end: MotionRect },
+  framing: { mode: FramingMode; cropPosition: CropPosition | null },
+  targetWidth: number,
+  targetHeight: number,
+  targetFrameRate: string,
+  duration: number
+): string {
+  const factor = Math.max(1, Math.min(4, Math.floor(MOTION_WORKING_WIDTH / targetWidth)));
+  const workWidth = targetWidth * factor;
+  const workHeight = targetHeight * factor;
+  const frames = Math.max(1, Math.round(duration * (parseFrameRate(targetFrameRate) ?? 30)));
+
+  // Eased so the motion starts and settles gently instead of jerking at the ends
+  const progress = `min(on/${Math.max(1, frames - 1)},1)`;
+  const eased = `(${progress})*(${progress})*(3-2*(${progress}))`;
+  const lerp = (from: number, to: number) => `(${from.toFixed(4)}+(${(to - from).toFixed(4)})*${eased})`;
+
+  const { start, end } = rects;
+  return `${buildFramingFilter(framing, workWidth, workHeight)},` +
+    `zoompan=z='1/${lerp(start.size, end.size)}'` +
+    `:x='${lerp(start.x, end.x)}*iw':y='${lerp(start.y, end.y)}*ih'` +
+    `:d=${frames}:s=${targetWidth}x${targetHeight}:fps=${targetFrameRate},setsar=1`;
+}
+
+const AUDIO_FORMAT_FILTER = 'aformat=sample_rates=48000:channel_layouts=stereo';
+
+// atempo only takes factors from 0.5 to 2 without skipping or repeating samples, so larger
+// changes are chained. Clips too fast or slow to sound right keep a silent track, so every
+// clip still has audio to join with the others.
+function buildClipAudioFilter(speed: number, audible: boolean): string {
+  const filters: string[] = [];
+  let remaining = speed;
+  while (remaining > 2) {
+    filters.push('atempo=2');
+    remaining /= 2;
+  }
+  while (remaining < 0.5) {
+    filters.push('atempo=0.5');
+    remaining /= 0.5;
+  }
+  if (remaining !== 1) filters.push(`atempo=${remaining.toFixed(4)}`);
+  if (!audible) filters.push('volume=0');
+  filters.push(AUDIO_FORMAT_FILTER);
+  return filters.join(',');
+}
+
+// Seconds of output ffmpeg writes to preprocess an item; clipped videos are encoded
+// clip by clip and then joined, so they are written twice
+function getItemWork(item: MediaItem, defaultPhotoDuration: number): number {
+  const duration = getItemDuration(item, defaultPhotoDuration);
+  return item.type === 'video' && item.clips && item.clips.length > 0 ? duration * 2 : duration;
+}
 
 async function preprocessSingleItem(
   item: MediaItem,
-  index: number,
-  tempDir: string,
+  outputPath: string,
   defaultPhotoDuration: number,
+  defaultFraming: FramingMode,
   captionSettings: CaptionSettings,
+  fontFile: string | null,
   targetWidth: number,
   targetHeight: number,
-  targetFrameRate: number // NEW PARAMETER
+  targetFrameRate: string,
+  pool: JobPool,
+  tracker: ProgressTracker
 ): Promise<string> {
-  const outputPath = `${tempDir}\\temp_${index}.mp4`;
+  const runJob = (args: string[], duration: number) =>
+    pool.run(() => tracker.run(item.filename, duration, args));
 
-  const captionFilter = buildCaptionFilter(item, captionSettings);
-  const videoFilter = `scale=${targetWidth}:${targetHeight}:force_original_aspect_ratio=decrease,` +
-                      `pad=${targetWidth}:${targetHeight}:(ow-iw)/2:(oh-ih)/2:black,` +
-                      `setsar=1${captionFilter}`;
+  const captionFilter = buildCaptionFilter(item, captionSettings, fontFile);
+  const framing = getItemFraming(item, defaultFraming);
+  const orientation = buildOrientationArgs(item);
+  const videoFilter = orientation.filter + buildFramingFilter(framing, targetWidth, targetHeight) + captionFilter;
 
   if (item.type === 'video') {
     if (item.clips && item.clips.length > 0) {
-      const clipPaths: string[] = [];
-      
-      for (let clipIdx = 0; clipIdx < item.clips.length; clipIdx++) {
-        const clip = item.clips[clipIdx];
-        const clipPath = `${tempDir}\\temp_${index}_clip_${clipIdx}.mp4`;
+      // Clips are encoded in parallel, then joined in one more step
+      const clipsDuration = getItemDuration(item, defaultPhotoDuration);
+
+      const clipPaths = await settleAll(item.clips.map(async (clip, clipIdx) => {
+        const clipPath = outputPath.replace(/\.mp4$/, `_clip_${clipIdx}.mp4`);
+        const speed = getClipSpeed(clip);
+        // Retimed before anything else so captions and framing aren't affected by the speed
+        const clipVideoFilter = speed === 1 ? videoFilter : `setpts=(PTS-STARTPTS)/${speed},${videoFilter}`;
         
         const args = [
+          ...orientation.inputArgs,
           '-ss', String(clip.start),
           '-i', item.filepath,
-          '-t', String(clip.end - clip.start),
-          '-vf', videoFilter,
-          '-r', String(targetFrameRate),
-          '-af', 'aformat=sample_rates=48000:channel_layouts=stereo',
-          '-c:v', 'libx264',
-          '-preset', 'ultrafast',
-          '-pix_fmt', 'yuv420p',
-          '-colorspace', 'bt709',
-          '-color_primaries', 'bt709',
-          '-color_trc', 'bt709',
-          '-crf', '18',
-          '-c:a', 'aac',
-          '-b:a', '192k',
+          '-t', String(getClipDuration(clip)),
+          '-vf', clipVideoFilter,
+          '-r', targetFrameRate,
+          '-af', buildClipAudioFilter(speed, isClipAudible(clip)),
+          ...intermediateEncoderArgs(),
+          ...orientation.outputArgs,
           '-avoid_negative_ts', 'make_zero',
           '-y',
           clipPath
         ];
         
-        await invoke<string>('run_ffmpeg', { args });
-        clipPaths.push(clipPath);
-      }
+        await runJob(args, getClipDuration(clip));
+        return clipPath;
+      }));
       
       if (clipPaths.length > 1) {
         const concatInputs = clipPaths.flatMap(p => ['-i', p]);
@@ -120,89 +382,70 @@ async function preprocessSingleItem(
           '-filter_complex', concatFilter,
           '-map', '[outv]',
           '-map', '[outa]',
-          '-r', String(targetFrameRate),
-          '-c:v', 'libx264',
-          '-preset', 'ultrafast',
-          '-pix_fmt', 'yuv420p',
-          '-colorspace', 'bt709',
-          '-color_primaries', 'bt709',
-          '-color_trc', 'bt709',
-          '-crf', '18',
-          '-c:a', 'aac',
-          '-b:a', '192k',
+          '-r', targetFrameRate,
+          ...intermediateEncoderArgs(),
           '-y',
           outputPath
         ];
         
-        await invoke<string>('run_ffmpeg', { args: concatArgs });
+        await runJob(concatArgs, clipsDuration);
       } else {
         const args = [
           '-i', clipPaths[0],
-          '-r', String(targetFrameRate),
-          '-c:v', 'libx264',
-          '-preset', 'ultrafast',
-          '-pix_fmt', 'yuv420p',
-          '-colorspace', 'bt709',
-          '-color_primaries', 'bt709',
-          '-color_trc', 'bt709',
-          '-crf', '18',
-          '-c:a', 'aac',
-          '-b:a', '192k',
+          '-r', targetFrameRate,
+          ...intermediateEncoderArgs(),
           '-y',
           outputPath
         ];
-        await invoke<string>('run_ffmpeg', { args });
+        await runJob(args, clipsDuration);
       }
       
       return outputPath;
     } else {
       const args = [
+        ...orientation.inputArgs,
         '-i', item.filepath,
         '-vf', videoFilter,
-        '-r', String(targetFrameRate),
-        '-af', 'aformat=sample_rates=48000:channel_layouts=stereo',
-        '-c:v', 'libx264',
-        '-preset', 'ultrafast',
-        '-pix_fmt', 'yuv420p',
-        '-colorspace', 'bt709',
-        '-color_primaries', 'bt709',
-        '-color_trc', 'bt709',
-        '-crf', '18',
-        '-c:a', 'aac',
-        '-b:a', '192k',
+        '-r', targetFrameRate,
+        '-af', AUDIO_FORMAT_FILTER,
+        ...intermediateEncoderArgs(),
+        ...orientation.outputArgs,
         '-y',
         outputPath
       ];
       
-      await invoke<string>('run_ffmpeg', { args });
+      await runJob(args, getItemDuration(item, defaultPhotoDuration));
       return outputPath;
     }
   } else {
     // PHOTO conversion - match video frame rate
     const duration = item.photoDuration ?? defaultPhotoDuration;
+    const motionRects = getMotionRects(item);
+    // zoompan makes the whole clip from the one decoded frame, so a moving photo isn't looped
+    const imageInput = motionRects
+      ? [...orientation.inputArgs, '-i', item.filepath]
+      : [...orientation.inputArgs, '-loop', '1', '-framerate', targetFrameRate, '-i', item.filepath];
+    const photoFilter = motionRects
+      ? orientation.filter +
+        buildMotionFilter(motionRects, framing, targetWidth, targetHeight, targetFrameRate, duration) +
+        captionFilter
+      : videoFilter;
+
     const args = [
-      '-loop', '1',
-      '-i', item.filepath,
+      ...imageInput,
       '-f', 'lavfi',
       '-i', `anullsrc=channel_layout=stereo:sample_rate=48000`,
       '-t', String(duration),
-      '-vf', videoFilter,
-      '-r', String(targetFrameRate),
-      '-c:v', 'libx264',
-      '-preset', 'ultrafast',
-      '-pix_fmt', 'yuv420p',
-      '-colorspace', 'bt709',
-      '-color_primaries', 'bt709',
-      '-color_trc', 'bt709',
-      '-crf', '18',
-      '-c:a', 'aac',
-      '-b:a', '192k',
+      '-vf', photoFilter,
+      '-r', targetFrameRate,
+      ...intermediateEncoderArgs(),
+      ...orientation.outputArgs,
       '-shortest',
       '-y',
       outputPath
     ];
     
-    await invoke<string>('run_ffmpeg', { args });
+    await runJob(args, duration);
     return outputPath;
   }
 }
@@ -213,27 +456,25 @@ export async function combineVideo(options: CombineVideoOptions): Promise<void>
     outputPath,
     defaultPhotoDuration,
     captionSettings,
+    renderJob,
     onProgress
   } = options;
 
   console.log(`Pre-processing ${mediaItems.length} items with captions...`);
 
-  try {
-    const projectDir = outputPath.substring(0, outputPath.lastIndexOf('\\'));
-    const projectName = outputPath.substring(outputPath.lastIndexOf('\\') + 1, outputPath.lastIndexOf('_combined'));
-    const tempDir = `${projectDir}\\${projectName}_temp`;
+  const projectName = basename(outputPath).replace(/_combined\.[^.]+$/, '');
+  // Preprocessed items are kept here between renders and reused while their inputs match
+  const tempDir = joinPath(dirname(outputPath), `${projectName}_temp`);
+  // Until joining starts, a previously combined video at outputPath is left untouched
+  let joinStarted = false;
 
-    try {
-      const tempExists = await exists(tempDir);
-      if (tempExists) {
-        await remove(tempDir, { recursive: true });
-      }
-    } catch (error) {
-      console.log('Temp dir does not exist, will create');
-    }
-    
+  const log = await createRenderLog(
+    joinPath(dirname(outputPath), `${projectName}_logs`),
+    `Render of ${basename(outputPath)} (${mediaItems.length} items)`
+  );
+
+  try {
     await mkdir(tempDir, { recursive: true });
-    console.log(`Created temp directory: ${tempDir}`);
 
     // Detect highest resolution
     let maxWidth = 1920;
@@ -257,134 +498,240 @@ export async function combineVideo(options: CombineVideoOptions): Promise<void>
       console.log(`Auto-detected resolution: ${maxWidth}x${maxHeight}`);
     }
 
-    // NEW: Detect highest frame rate from videos
-    let maxFrameRate = 60; // Default
+    const frameRate = options.frameRate ?? getDominantFrameRate(mediaItems);
 
-    
-    console.log(`Processing at ${maxWidth}x${maxHeight} @ ${maxFrameRate}fps`);
+    console.log(`Processing at ${maxWidth}x${maxHeight} @ ${formatFrameRate(frameRate)}`);
+    log.info(`Output ${outputPath} at ${maxWidth}x${maxHeight} @ ${formatFrameRate(frameRate)}`);
 
-    const processedPaths: string[] = [];
+    const hasCaptions = mediaItems.some(item => item.showCaption && item.caption);
+    const fontFile = hasCaptions ? await resolveCaptionFont(captionSettings) : null;
+    if (fontFile) {
+      console.log(`Caption font: ${fontFile}`);
+      log.info(`Caption font ${fontFile}`);
+    } else if (hasCaptions) {
+      log.info('No caption font found, captions are left out');
+    }
 
+    const defaultFraming = options.defaultFraming ?? DEFAULT_FRAMING;
+    const itemSettings: ItemRenderSettings = {
+      captionSettings,
+      defaultPhotoDuration,
+      defaultFraming,
+      width: maxWidth,
+      height: maxHeight,
+      frameRate,
+      encoder: INTERMEDIATE_ENCODER_SETTINGS
+    };
+
+    // Work out every item's cache entry first, so identical items are only encoded once
+    const entries: { cachedPath: string; isCached: boolean }[] = [];
     for (let i = 0; i < mediaItems.length; i++) {
-      if (onProgress) onProgress(10 + (i / mediaItems.length) * 80);
-      console.log(`Processing item ${i + 1}/${mediaItems.length}`);
-      
-      const processedPath = await preprocessSingleItem(
-        mediaItems[i],
-        i,
-        tempDir,
-        defaultPhotoDuration,
-        captionSettings,
-        maxWidth,
-        maxHeight,
-        maxFrameRate // Pass detected frame rate
-      );
-      processedPaths.push(processedPath);
+      // Without a fingerprint a replaced source can't be detected, so the item is always re-encoded
+      const source = await getSourceFingerprint(mediaItems[i].filepath);
+      const key = source ? await getItemCacheKey(mediaItems[i], source, itemSettings) : `uncached_${i}`;
+      const cachedPath = getCachedItemPath(tempDir, key);
+      entries.push({ cachedPath, isCached: source !== null && await exists(cachedPath) });
     }
 
+    const defaultTransition = options.defaultTransition ?? { type: 'none', duration: 0 };
+    const transitions = getBoundaryTransitions(mediaItems, defaultPhotoDuration, defaultTransition);
+    const hasTransitions = transitions.some(transition => transition !== null);
+
+    // Progress covers encoding the uncached items plus joining everything
+    const totalOutputDuration = getTimelineDuration(mediaItems, defaultPhotoDuration, defaultTransition);
+    const useBatches = mediaItems.length > 50;
+    const encodedPaths = new Set<string>();
+    let encodeWork = 0;
+    entries.forEach(({ cachedPath, isCached }, i) => {
+      if (isCached || encodedPaths.has(cachedPath)) return;
+      encodedPaths.add(cachedPath);
+      encodeWork += getItemWork(mediaItems[i], defaultPhotoDuration);
+    });
+    const joinWork = useBatches ? totalOutputDuration * 2 : totalOutputDuration;
+    const tracker = createProgressTracker(encodeWork + joinWork, onProgress, renderJob, log);
+    renderJob?.throwIfCancelled();
+
+    const pool = createJobPool(options.maxParallelJobs ?? 1);
+    const encodes = new Map<string, Promise<string>>();
+    let reusedCount = 0;
+
+    const processedPaths = await settleAll(entries.map(async ({ cachedPath, isCached }, i) => {
+      if (isCached) {
+        console.log(`Reusing cached item ${i + 1}/${mediaItems.length}`);
+        reusedCount++;
+        return cachedPath;
+      }
+
+      let encode = encodes.get(cachedPath);
+      if (!encode) {
+        console.log(`Processing item ${i + 1}/${mediaItems.length}`);
+        // Failures are tied to the item inside the pool job, so items still waiting for a
+        // slot are rejected with this item's error rather than blamed themselves
+        const itemTracker: ProgressTracker = {
+          run: (label, duration, args) => tracker.run(label, duration, args).catch(error => {
+            if (isRenderCancelled(error)) throw error;
+            throw new RenderItemError(mediaItems[i], i, summarizeFfmpegError(error), log.path);
+          })
+        };
+        encode = (async () => {
+          // Encode under a temporary name so an interrupted render never leaves a truncated cache entry
+          const partialPath = cachedPath.replace(/\.mp4$/, '.partial.mp4');
+          await preprocessSingleItem(
+            mediaItems[i],
+            partialPath,
+            defaultPhotoDuration,
+            defaultFraming,
+            captionSettings,
+            fontFile,
+            maxWidth,
+            maxHeight,
+            frameRate,
+            pool,
+            itemTracker
+          );
+          await rename(partialPath, cachedPath);
+          return cachedPath;
+        })();
+        encodes.set(cachedPath, encode);
+      }
+
+      await encode;
+      return cachedPath;
+    }));
+
+    console.log(`Reused ${reusedCount} of ${mediaItems.length} cached items`);
+    log.info(`Reused ${reusedCount} of ${mediaItems.length} cached items`);
+
     console.log('Concatenating all processed files...');
-    if (onProgress) onProgress(90);
+    joinStarted = true;
+
+    // Intermediates share one encoding, so normally they can be joined without re-encoding
+    let joined = false;
+    if (hasTransitions) {
+      console.log('Joining with transitions...');
+      log.info(`Joining with ${transitions.filter(Boolean).length} transitions`);
+    } else if (await canStreamCopyConcat(processedPaths)) {
+      console.log('Joining by stream copy...');
+      try {
+        const copyArgs = await buildStreamCopyConcatArgs(processedPaths, joinPath(tempDir, 'concat_list.txt'), outputPath);
+        // Counts as the whole join, which was sized for the re-encoding fallback
+        await tracker.run('Joining items', joinWork, copyArgs);
+        joined = true;
+      } catch (error) {
+        if (renderJob?.isCancelled()) throw error;
+        console.error('Stream copy join failed, re-encoding instead:', error);
+      }
+    } else {
+      console.log('Items are not stream compatible, re-encoding while joining...');
+    }
 
-    if (processedPaths.length > 50) {
-      console.log(`Too many files (${processedPaths.length}), using batch concatenation...`);
+    if (!joined) {
+      const expectedDurations = mediaItems.map(item => getItemDuration(item, defaultPhotoDuration));
+      const durations = hasTransitions ? await probeDurations(processedPaths, expectedDurations) : expectedDurations;
+
+      if (useBatches) {
+        console.log(`Too many files (${processedPaths.length}), using batch concatenation...`);
       
-      const BATCH_SIZE = 20;
-      const batchPaths: string[] = [];
+        const BATCH_SIZE = 20;
+        const batchPaths: string[] = [];
+        const batchDurations: number[] = [];
+        // Transitions between the last item of a batch and the first of the next
+        const batchTransitions: (Transition | null)[] = [];
       
-      for (let batchIdx = 0; batchIdx < Math.ceil(processedPaths.length / BATCH_SIZE); batchIdx++) {
-        const batchStart = batchIdx * BATCH_SIZE;
-        const batchEnd = Math.min(batchStart + BATCH_SIZE, processedPaths.length);
-        const batchFiles = processedPaths.slice(batchStart, batchEnd);
+        for (let batchIdx = 0; batchIdx < Math.ceil(processedPaths.length / BATCH_SIZE); batchIdx++) {
+          const batchStart = batchIdx * BATCH_SIZE;
+          const batchEnd = Math.min(batchStart + BATCH_SIZE, processedPaths.length);
+          const batchFiles = processedPaths.slice(batchStart, batchEnd);
         
-        console.log(`Concatenating batch ${batchIdx + 1}, files ${batchStart}-${batchEnd}`);
+          console.log(`Concatenating batch ${batchIdx + 1}, files ${batchStart}-${batchEnd}`);
         
-        const batchOutputPath = `${tempDir}\\batch_${batchIdx}.mp4`;
+          const batchOutputPath = joinPath(tempDir, `batch_${batchIdx}.mp4`);
         
-        const batchInputs = batchFiles.flatMap(p => ['-i', p]);
-        const batchFilter = batchFiles.map((_, i) => `[${i}:v][${i}:a]`).join('') +
-          `concat=n=${batchFiles.length}:v=1:a=1[outv][outa]`;
+          const batchInputs = batchFiles.flatMap(p => ['-i', p]);
+          const batchJoin = buildJoinFilter(
+            durations.slice(batchStart, batchEnd),
+            transitions.slice(batchStart, batchEnd - 1)
+          );
+
+          const batchArgs = [
+            ...batchInputs,
+            '-filter_complex', batchJoin.filter,
+            '-map', '[outv]',
+            '-map', '[outa]',
+            '-r', frameRate,
+            ...intermediateEncoderArgs(),
+            '-y',
+            batchOutputPath
+          ];
+
+          await tracker.run(`Joining batch ${batchIdx + 1}`, batchJoin.duration, batchArgs);
+          batchPaths.push(batchOutputPath);
+          batchDurations.push(batchJoin.duration);
+          if (batchEnd < processedPaths.length) {
+            batchTransitions.push(transitions[batchEnd - 1]);
+          }
+        }
+      
+        console.log(`Merging ${batchPaths.length} batches...`);
+        const finalInputs = batchPaths.flatMap(p => ['-i', p]);
+        const finalJoin = buildJoinFilter(batchDurations, batchTransitions);
 
-        const batchArgs = [
-          ...batchInputs,
-          '-filter_complex', batchFilter,
+        const finalArgs = [
+          ...finalInputs,
+          '-filter_complex', finalJoin.filter,
           '-map', '[outv]',
           '-map', '[outa]',
-          '-r', String(maxFrameRate),
-          '-c:v', 'libx264',
-          '-preset', 'ultrafast',
-          '-pix_fmt', 'yuv420p',
-          '-colorspace', 'bt709',
-          '-color_primaries', 'bt709',
-          '-color_trc', 'bt709',
-          '-crf', '18',
-          '-c:a', 'aac',
-          '-b:a', '192k',
+          '-r', frameRate,
+          ...intermediateEncoderArgs(),
           '-y',
-          batchOutputPath
+          outputPath
         ];
 
-        await invoke<string>('run_ffmpeg', { args: batchArgs });
-        batchPaths.push(batchOutputPath);
-      }
+        await tracker.run('Joining batches', totalOutputDuration, finalArgs);
       
-      console.log(`Merging ${batchPaths.length} batches...`);
-      const finalInputs = batchPaths.flatMap(p => ['-i', p]);
-      const finalFilter = batchPaths.map((_, i) => `[${i}:v][${i}:a]`).join('') +
-        `concat=n=${batchPaths.length}:v=1:a=1[outv][outa]`;
-
-      const finalArgs = [
-        ...finalInputs,
-        '-filter_complex', finalFilter,
-        '-map', '[outv]',
-        '-map', '[outa]',
-        '-r', String(maxFrameRate),
-        '-c:v', 'libx264',
-        '-preset', 'ultrafast',
-        '-pix_fmt', 'yuv420p',
-        '-colorspace', 'bt709',
-        '-color_primaries', 'bt709',
-        '-color_trc', 'bt709',
-        '-crf', '18',
-        '-c:a', 'aac',
-        '-b:a', '192k',
-        '-y',
-        outputPath
-      ];
+      } else {
+        const concatInputs = processedPaths.flatMap(p => ['-i', p]);
+        const concatJoin = buildJoinFilter(durations, transitions);
 
-      await invoke<string>('run_ffmpeg', { args: finalArgs });
-      
-    } else {
-      const concatInputs = processedPaths.flatMap(p => ['-i', p]);
-      const concatFilter = processedPaths.map((_, i) => `[${i}:v][${i}:a]`).join('') +
-        `concat=n=${processedPaths.length}:v=1:a=1[outv][outa]`;
-
-      const concatArgs = [
-        ...concatInputs,
-        '-filter_complex', concatFilter,
-        '-map', '[outv]',
-        '-map', '[outa]',
-        '-r', String(maxFrameRate),
-        '-c:v', 'libx264',
-        '-preset', 'ultrafast',
-        '-pix_fmt', 'yuv420p',
-        '-colorspace', 'bt709',
-        '-color_primaries', 'bt709',
-        '-color_trc', 'bt709',
-        '-crf', '18',
-        '-c:a', 'aac',
-        '-b:a', '192k',
-        '-y',
-        outputPath
-      ];
+        const concatArgs = [
+          ...concatInputs,
+          '-filter_complex', concatJoin.filter,
+          '-map', '[outv]',
+          '-map', '[outa]',
+          '-r', frameRate,
+          ...intermediateEncoderArgs(),
+          '-y',
+          outputPath
+        ];
 
-      await invoke<string>('run_ffmpeg', { args: concatArgs });
+        await tracker.run('Joining items', totalOutputDuration, concatArgs);
+      }
     }
 
-    if (onProgress) onProgress(100);
-    console.log(`Video combination complete at ${maxWidth}x${maxHeight} @ ${maxFrameRate}fps!`);
+    // Only the items of this render stay cached
+    await pruneRenderCache(tempDir, processedPaths);
+
+    console.log(`Video combination complete at ${maxWidth}x${maxHeight} @ ${formatFrameRate(frameRate)}!`);
+    log.info('Render finished');
+    await log.flush();
     
   } catch (error) {
+    if (renderJob?.isCancelled()) {
+      console.log('Render cancelled, removing partial files');
+      log.info('Render cancelled');
+      await log.flush();
+      await removeIncompleteFiles(tempDir);
+      if (joinStarted && await exists(outputPath)) {
+        await remove(outputPath);
+      }
+      throw new RenderCancelledError();
+    }
     console.error('FFmpeg processing failed:', error);
-    throw new Error(`FFmpeg failed: ${error}`);
+    log.info(error instanceof RenderItemError
+      ? `Render failed at item ${error.itemIndex + 1} (${error.filename})`
+      : `Render failed: ${error}`);
+    await log.flush();
+    if (error instanceof RenderItemError) throw error;
+    throw new Error(`FFmpeg failed: ${summarizeFfmpegError(error)}\n\nFull log: ${log.path}`);
   }
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+// src/utils/ffmpegProgress.ts
+// Live progress for ffmpeg jobs, streamed from the backend as "ffmpeg-progress" events
+
+import { invoke } from '@tauri-apps/api/core';
+import { listen } from '@tauri-apps/api/event';
+import { RenderJob, RenderCancelledError } from './renderJob';
+import { RenderLog } from './renderLog';
+
+export interface RenderProgress {
+  percent: number;
+  // What is being worked on, e.g. "beach.mp4" or "Joining items"
+  stage: string;
+  // Combined speed of the running ffmpeg jobs relative to real time (2 = twice as fast)
+  speed: number | null;
+  etaSeconds: number | null;
+}
+
+interface FfmpegProgressEvent {
+  jobId: string;
+  // Seconds of output written so far
+  outTime: number;
+  speed: number | null;
+  done: boolean;
+}
+
+let jobCounter = 0;
+
+// Runs ffmpeg and reports how many seconds of output it has written so far. When run as
+// part of a render job, the process is killed if that job is cancelled.
+export async function runFfmpegWithProgress(
+  args: string[],
+  onProgress: (outTime: number, speed: number | null) => void,
+  renderJob?: RenderJob
+): Promise<string> {
+  renderJob?.throwIfCancelled();
+
+  const jobId = `ffmpeg_${Date.now()}_${++jobCounter}`;
+  const unlisten = await listen<FfmpegProgressEvent>('ffmpeg-progress', event => {
+    if (event.payload.jobId === jobId) {
+      onProgress(event.payload.outTime, event.payload.speed);
+    }
+  });
+
+  try {
+    return await invoke<string>('run_ffmpeg_streaming', { jobId, renderJobId: renderJob?.id ?? null, args });
+  } catch (error) {
+    // A killed process fails like any other, report it as the cancellation it is
+    if (renderJob?.isCancelled()) throw new RenderCancelledError();
+    throw error;
+  } finally {
+    unlisten();
+  }
+}
+
+export interface ProgressTracker {
+  // Runs one ffmpeg job that is expected to write `duration` seconds of output
+  run(label: string, duration: number, args: string[]): Promise<void>;
+}
+
+// Combines the progress of concurrently running jobs into one percentage. Work is measured
+// in seconds of output, so long items move the bar more than short ones. Every run is
+// recorded in the render log when one is given.
+export function createProgressTracker(
+  totalWork: number,
+  onProgress?: (progress: RenderProgress) => void,
+  renderJob?: RenderJob,
+  log?: RenderLog
+): ProgressTracker {
+  const startTime = Date.now();
+  const running = new Map<number, { label: string; outTime: number; speed: number | null }>();
+  let finishedWork = 0;
+  let nextJobId = 0;
+  let lastLabel = 'Preparing...';
+
+  const report = () => {
+    if (!onProgress) return;
+
+    let done = finishedWork;
+    let speed: number | null = null;
+    for (const job of running.values()) {
+      done += job.outTime;
+      if (job.speed !== null) speed = (speed ?? 0) + job.speed;
+    }
+
+    const fraction = totalWork > 0 ? Math.min(1, done / totalWork) : 0;
+    const elapsedSeconds = (Date.now() - startTime) / 1000;
+    // The first few seconds of an encode are too noisy to extrapolate from
+    const etaSeconds = fraction > 0.01 && elapsedSeconds > 3
+      ? elapsedSeconds * (1 - fraction) / fraction
+      : null;
+
+    const labels = Array.from(running.values(), job => job.label);
+    const stage = labels.length === 0 ? lastLabel :
+      labels.length === 1 ? labels[0] :
+      `${labels[0]} (+${labels.length - 1} more)`;
+
+    onProgress({ percent: fraction * 100, stage, speed, etaSeconds });
+  };
+
+  return {
+    run: async (label, duration, args) => {
+      const jobId = nextJobId++;
+      running.set(jobId, { label, outTime: 0, speed: null });
+      report();
+
+      const started = Date.now();
+      let failure: unknown = null;
+      try {
+        await runFfmpegWithProgress(args, (outTime, speed) => {
+          const job = running.get(jobId);
+          if (!job) return;
+          job.outTime = Math.min(outTime, duration);
+          job.speed = speed;
+          report();
+        }, renderJob);
+        finishedWork += duration;
+      } catch (error) {
+        failure = error;
+        throw error;
+      } finally {
+        log?.command(label, args, (Date.now() - started) / 1000, failure);
+        running.delete(jobId);
+        lastLabel = label;
+        report();
+      }
+    }
+  };
+}
+
+export function formatEta(seconds: number): string {
+  const rounded = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(rounded / 3600);
+  const mins = Math.floor((rounded % 3600) / 60);
+  const secs = rounded % 60;
+  return hours > 0
+    ? `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+    : `${mins}:${secs.toString().padStart(2, '0')}`;
+}
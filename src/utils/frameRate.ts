@@ -0,0 +1,86 @@
+// src/utils/frameRate.ts
+// Frame rates are kept as exact rationals ("30000/1001"), since 29.97 rounded to a decimal
+// drifts out of sync with the source over a long render
+
+import { invoke } from '@tauri-apps/api/core';
+import { MediaItem } from '../types';
+
+export interface FrameRateOption {
+  label: string;
+  value: string;
+}
+
+export const COMMON_FRAME_RATES: FrameRateOption[] = [
+  { label: '23.976 fps (NTSC film)', value: '24000/1001' },
+  { label: '24 fps', value: '24/1' },
+  { label: '25 fps (PAL)', value: '25/1' },
+  { label: '29.97 fps (NTSC)', value: '30000/1001' },
+  { label: '30 fps', value: '30/1' },
+  { label: '50 fps', value: '50/1' },
+  { label: '59.94 fps', value: '60000/1001' },
+  { label: '60 fps', value: '60/1' }
+];
+
+export const DEFAULT_FRAME_RATE = '30/1';
+
+// Frames per second of a rational like "30000/1001" or a plain number like "29.97";
+// null if it isn't a usable rate
+export function parseFrameRate(rate: string): number | null {
+  const [num, den = '1'] = rate.split('/');
+  const fps = Number(num) / Number(den);
+  return Number.isFinite(fps) && fps > 0 ? fps : null;
+}
+
+// Snaps a probed rate to the standard rate it's meant to be. Variable frame rate phone
+// footage averages out at e.g. 29.98, which should render at 30000/1001 like its siblings.
+export function normalizeFrameRate(rate: string): string | null {
+  const fps = parseFrameRate(rate);
+  if (fps === null) return null;
+
+  const closest = COMMON_FRAME_RATES.reduce((best, option) =>
+    Math.abs(parseFrameRate(option.value)! - fps) < Math.abs(parseFrameRate(best.value)! - fps) ? option : best
+  );
+  if (Math.abs(parseFrameRate(closest.value)! - fps) < 0.05) return closest.value;
+
+  // Uncommon rates are kept, rounded to a thousandth of a frame
+  return `${Math.round(fps * 1000)}/1000`;
+}
+
+export function formatFrameRate(rate: string): string {
+  const known = COMMON_FRAME_RATES.find(option => option.value === rate);
+  if (known) return known.label;
+  const fps = parseFrameRate(rate);
+  return fps === null ? rate : `${Number(fps.toFixed(3))} fps`;
+}
+
+// The rate most of the project's video footage was shot at, weighted by duration. Photos
+// adapt to any rate, so they don't count.
+export function getDominantFrameRate(mediaItems: MediaItem[]): string {
+  const totals = new Map<string, number>();
+  for (const item of mediaItems) {
+    if (item.type !== 'video' || !item.frameRate) continue;
+    const rate = normalizeFrameRate(item.frameRate);
+    if (!rate) continue;
+    totals.set(rate, (totals.get(rate) ?? 0) + (item.duration ?? 1));
+  }
+
+  let dominant = DEFAULT_FRAME_RATE;
+  let longest = 0;
+  for (const [rate, duration] of totals) {
+    if (duration > longest) {
+      dominant = rate;
+      longest = duration;
+    }
+  }
+  return dominant;
+}
+
+// Source rate of a video file as reported by ffprobe; undefined if it couldn't be read
+export async function probeFrameRate(path: string): Promise<string | undefined> {
+  try {
+    return await invoke<string>('get_video_frame_rate', { path });
+  } catch (error) {
+    console.warn('Could not get frame rate for', path, error);
+    return undefined;
+  }
+}
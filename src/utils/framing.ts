@@ -0,0 +1,27 @@
+// src/utils/framing.ts
+// How items whose aspect ratio differs from the output are fitted into the frame
+
+import { CropPosition, FramingMode, MediaItem } from '../types';
+
+export const FRAMING_MODES: { value: FramingMode; label: string }[] = [
+  { value: 'fit', label: 'Fit (black bars)' },
+  { value: 'blur', label: 'Fit (blurred background)' },
+  { value: 'fill', label: 'Fill (crop)' }
+];
+
+export const DEFAULT_FRAMING: FramingMode = 'fit';
+
+export const CENTERED_CROP: CropPosition = { x: 0.5, y: 0.5 };
+
+export function getFramingLabel(mode: FramingMode): string {
+  return FRAMING_MODES.find(entry => entry.value === mode)?.label ?? mode;
+}
+
+// Framing an item renders with; the crop position only matters when it's cropped
+export function getItemFraming(
+  item: MediaItem,
+  defaultFraming: FramingMode
+): { mode: FramingMode; cropPosition: CropPosition | null } {
+  const mode = item.framing ?? defaultFraming;
+  return { mode, cropPosition: mode === 'fill' ? item.cropPosition ?? CENTERED_CROP : null };
+}
@@ -0,0 +1,57 @@
+// src/utils/jobPool.ts
+// Bounded concurrency for render jobs (one ffmpeg process per job)
+
+export interface JobPool {
+  run<T>(job: () => Promise<T>): Promise<T>;
+}
+
+// Runs at most `concurrency` jobs at once, starting queued jobs in order. Once a job fails,
+// jobs that haven't started yet are rejected with the same error instead of being run.
+export function createJobPool(concurrency: number): JobPool {
+  const limit = Math.max(1, Math.floor(concurrency));
+  const waiting: (() => void)[] = [];
+  let active = 0;
+  let failure: { error: unknown } | null = null;
+
+  const acquire = (): Promise<void> => {
+    if (active < limit) {
+      active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => waiting.push(resolve));
+  };
+
+  // A finished job hands its slot straight to the next waiting one
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return {
+    run: async <T>(job: () => Promise<T>): Promise<T> => {
+      await acquire();
+      try {
+        if (failure) throw failure.error;
+        return await job();
+      } catch (error) {
+        if (!failure) failure = { error };
+        throw error;
+      } finally {
+        release();
+      }
+    }
+  };
+}
+
+// Like Promise.all, but waits for every promise to settle before rejecting, so no job
+// is still writing files when the caller starts handling the error
+export async function settleAll<T>(promises: Promise<T>[]): Promise<T[]> {
+  const results = await Promise.allSettled(promises);
+  const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (rejected) throw rejected.reason;
+  return results.map(result => (result as PromiseFulfilledResult<T>).value);
+}
@@ -0,0 +1,103 @@
+// src/utils/mediaRelink.ts
+// Missing-media detection and relinking for moved projects
+
+import { invoke } from '@tauri-apps/api/core';
+import { ProjectData, getProjectFilePaths, mapProjectFiles } from './projectFile';
+import { basename, dirname, joinPath, toRelativePath } from './paths';
+
+// Maps an original (missing) path to its replacement
+export type RelinkMap = Record<string, string>;
+
+export async function findMissingMedia(data: ProjectData): Promise<string[]> {
+  const paths = getProjectFilePaths(data);
+  if (paths.length === 0) return [];
+  return invoke<string[]>('find_missing_files', { paths });
+}
+
+export interface FolderSearchResult {
+  relinks: RelinkMap;
+  // Missing files with several equally likely matches, left for the user to pick from
+  ambiguous: Record<string, string[]>;
+}
+
+// Number of folders, counted up from the file, that two paths have in common
+function countMatchingFolders(a: string, b: string): number {
+  const aParts = a.toLowerCase().split(/[\\/]+/).slice(0, -1).reverse();
+  const bParts = b.toLowerCase().split(/[\\/]+/).slice(0, -1).reverse();
+  let count = 0;
+  while (count < aParts.length && count < bParts.length && aParts[count] === bParts[count]) count++;
+  return count;
+}
+
+// Search a folder (recursively) for files with the same names as the missing ones. Cameras
+// reuse names across cards and days, so among several matches the one whose folders best
+// match the original path wins, and a file only relinks to a match no other missing file
+// fits as well. Ties are never guessed.
+export async function searchFolderForMedia(root: string, missingPaths: string[]): Promise<FolderSearchResult> {
+  const filenames = Array.from(new Set(missingPaths.map(path => basename(path))));
+  const found = await invoke<Record<string, string[]>>('find_files_by_name', { root, filenames });
+
+  const best = new Map<string, { candidate: string; score: number }>();
+  const ambiguous: Record<string, string[]> = {};
+  for (const path of missingPaths) {
+    const candidates = found[basename(path)] ?? [];
+    if (candidates.length === 0) continue;
+
+    const scored = candidates
+      .map(candidate => ({ candidate, score: countMatchingFolders(path, candidate) }))
+      .sort((a, b) => b.score - a.score);
+    if (scored.length > 1 && scored[0].score === scored[1].score) {
+      ambiguous[path] = candidates;
+    } else {
+      best.set(path, scored[0]);
+    }
+  }
+
+  const relinks: RelinkMap = {};
+  for (const [path, { candidate, score }] of best) {
+    const rivals = [...best].filter(([other, match]) => other !== path && match.candidate === candidate);
+    if (rivals.every(([, match]) => match.score < score)) {
+      relinks[path] = candidate;
+    } else {
+      ambiguous[path] = found[basename(path)];
+    }
+  }
+  return { relinks, ambiguous };
+}
+
+// After the user locates one file by hand, assume the rest of its original folder moved
+// along with it and look for the other missing files at the same relative location
+export async function relinkSiblings(
+  originalPath: string,
+  locatedPath: string,
+  missingPaths: string[]
+): Promise<RelinkMap> {
+  const oldDir = dirname(originalPath);
+  const newDir = dirname(locatedPath);
+
+  const candidates: RelinkMap = {};
+  for (const path of missingPaths) {
+    if (path === originalPath) continue;
+    const relative = toRelativePath(oldDir, path);
+    if (relative && !relative.startsWith('..')) {
+      candidates[path] = joinPath(newDir, relative);
+    }
+  }
+
+  const candidatePaths = Object.values(candidates);
+  if (candidatePaths.length === 0) return {};
+
+  const stillMissing = new Set(await invoke<string[]>('find_missing_files', { paths: candidatePaths }));
+  const relinks: RelinkMap = {};
+  for (const [path, candidate] of Object.entries(candidates)) {
+    if (!stillMissing.has(candidate)) relinks[path] = candidate;
+  }
+  return relinks;
+}
+
+export function applyRelinks(data: ProjectData, relinks: RelinkMap): ProjectData {
+  return mapProjectFiles(data, entry => {
+    const newPath = relinks[entry.filepath];
+    return newPath ? { ...entry, filepath: newPath, filename: basename(newPath) } : entry;
+  });
+}
@@ -0,0 +1,75 @@
+// src/utils/orientation.ts
+// Rotation and flip of items. Files come with their own orientation (video rotation metadata,
+// photo EXIF) and the user can turn them further; both add up to what gets rendered.
+
+import { invoke } from '@tauri-apps/api/core';
+import { MediaItem, Orientation, Rotation } from '../types';
+
+export const UPRIGHT: Orientation = { rotation: 0, flip: false };
+
+function toRotation(degrees: number): Rotation {
+  return ((Math.round(degrees / 90) % 4 + 4) % 4 * 90) as Rotation;
+}
+
+// `first` followed by `then`. A mirror reverses the direction of any rotation before it.
+export function combineOrientations(first: Orientation, then: Orientation): Orientation {
+  return {
+    rotation: toRotation(then.flip ? then.rotation - first.rotation : then.rotation + first.rotation),
+    flip: first.flip !== then.flip
+  };
+}
+
+export function isUpright(orientation: Orientation): boolean {
+  return orientation.rotation === 0 && !orientation.flip;
+}
+
+// Quarter turns swap width and height
+export function isQuarterTurn(orientation: Orientation): boolean {
+  return orientation.rotation === 90 || orientation.rotation === 270;
+}
+
+// The item's own rotation and flip after turning it a quarter clockwise or mirroring it
+export function rotateClockwise(orientation: Orientation | undefined): Orientation {
+  return combineOrientations(orientation ?? UPRIGHT, { rotation: 90, flip: false });
+}
+
+export function flipHorizontally(orientation: Orientation | undefined): Orientation {
+  return combineOrientations(orientation ?? UPRIGHT, { rotation: 0, flip: true });
+}
+
+// Everything that turns the item in the render; null when the source orientation was never
+// detected, in which case ffmpeg applies the rotation metadata it finds itself
+export function getSourceToOutputOrientation(item: MediaItem): Orientation | null {
+  if (!item.sourceOrientation) return null;
+  return combineOrientations(item.sourceOrientation, item.orientation ?? UPRIGHT);
+}
+
+// Webviews already show files upright, so previews only apply the user's rotation and flip.
+// A quarter-turned element no longer has the frame's shape, so it's scaled to fit inside the
+// frame, or to cover it when the item is cropped to fill it.
+export function getOrientationStyle(
+  orientation: Orientation | undefined,
+  aspectRatio: string,
+  cover = false
+): React.CSSProperties | undefined {
+  if (!orientation || isUpright(orientation)) return undefined;
+
+  let transform = `rotate(${orientation.rotation}deg)`;
+  if (isQuarterTurn(orientation)) {
+    const [width, height] = aspectRatio.split(':').map(Number);
+    const ratio = width > 0 && height > 0 ? width / height : 1;
+    transform += ` scale(${cover ? Math.max(ratio, 1 / ratio) : Math.min(ratio, 1 / ratio)})`;
+  }
+  if (orientation.flip) transform += ' scaleX(-1)';
+  return { transform };
+}
+
+// Orientation stored in the file; undefined if it couldn't be read
+export async function probeOrientation(path: string, isVideo: boolean): Promise<Orientation | undefined> {
+  try {
+    return await invoke<Orientation>('get_media_orientation', { path, isVideo });
+  } catch (error) {
+    console.warn('Could not get orientation for', path, error);
+    return undefined;
+  }
+}
@@ -0,0 +1,302 @@
+// src/utils/packageProject.ts
+// Collects a project and all of its media into a self-contained folder (optionally zipped)
+
+import { invoke } from '@tauri-apps/api/core';
+import { copyFile, exists, mkdir, remove } from '@tauri-apps/plugin-fs';
+import { MediaItem } from '../types';
+import { AudioItem } from '../components/AudioFileList';
+import { ProjectData, MediaPoolItem, Sequence, mergeIntoMediaPool, saveProjectFile } from './projectFile';
+import { basename, joinPath, stem } from './paths';
+import { UPRIGHT } from './orientation';
+import { DEFAULT_TRANSITION } from './timeline';
+
+export interface PackageProjectOptions {
+  destinationDir: string;
+  projectName: string;
+  // Re-encode only the trimmed clip ranges instead of copying whole source videos
+  trimToClips: boolean;
+  createArchive: boolean;
+  onProgress?: (percent: number, message: string) => void;
+}
+
+const MEDIA_FOLDER = 'media';
+const AUDIO_FOLDER = 'audio';
+
+// Extra footage kept around each trimmed clip so it can still be adjusted after packaging
+const CLIP_HANDLE_SECONDS = 1;
+
+// Hands out file names inside a folder, suffixing duplicates ("clip.mp4", "clip_2.mp4", ...)
+function createNameAllocator() {
+  const used = new Set<string>();
+  return (name: string): string => {
+    const dot = name.lastIndexOf('.');
+    const base = dot > 0 ? name.substring(0, dot) : name;
+    const extension = dot > 0 ? name.substring(dot) : '';
+
+    let candidate = name;
+    for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+      candidate = `${base}_${i}${extension}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  };
+}
+
+// ffmpeg turns the clip's pixels upright while re-encoding it, so the trimmed file has no
+// rotation of its own left
+async function extractClip(
+  sourcePath: string,
+  start: number,
+  end: number,
+  outputPath: string
+): Promise<void> {
+  const args = [
+    '-ss', String(start),
+    '-i', sourcePath,
+    '-t', String(end - start),
+    '-map', '0:v:0',
+    '-map', '0:a?',
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-pix_fmt', 'yuv420p',
+    '-crf', '18',
+    '-c:a', 'aac',
+    '-b:a', '192k',
+    '-metadata:s:v:0', 'rotate=0',
+    '-avoid_negative_ts', 'make_zero',
+    '-y',
+    outputPath
+  ];
+  await invoke<string>('run_ffmpeg', { args });
+}
+
+// Number of files the packager will write, used for progress reporting
+function countPackageSteps(data: ProjectData, trimToClips: boolean): number {
+  // When trimming, the pool is rebuilt from the packaged items instead of being copied
+  const copiedPaths = new Set<string>(trimToClips ? [] : data.mediaPool.map(entry => entry.filepath));
+  let trimmedClips = 0;
+  for (const item of data.sequences.flatMap(sequence => sequence.mediaItems)) {
+    const clipCount = trimToClips && item.type === 'video' ? item.clips?.length ?? 0 : 0;
+    if (clipCount > 0) {
+      trimmedClips += clipCount;
+    } else {
+      copiedPaths.add(item.filepath);
+    }
+  }
+  const audioPaths = new Set([
+    ...data.audioFiles.map(file => file.filepath),
+    ...data.sequences.flatMap(sequence => sequence.audioTracks.map(track => track.filepath))
+  ]);
+  return copiedPaths.size + trimmedClips + audioPaths.size;
+}
+
+// Writes the package into packageDir and returns the path of the folder or archive
+async function writePackage(
+  data: ProjectData,
+  options: PackageProjectOptions,
+  packageDir: string,
+  archivePath: string
+): Promise<string> {
+  const { projectName, trimToClips, createArchive, onProgress } = options;
+
+  const mediaDir = joinPath(packageDir, MEDIA_FOLDER);
+  const audioDir = joinPath(packageDir, AUDIO_FOLDER);
+  await mkdir(mediaDir, { recursive: true });
+  await mkdir(audioDir, { recursive: true });
+
+  const totalSteps = countPackageSteps(data, trimToClips) + (createArchive ? 1 : 0);
+  let completedSteps = 0;
+  const report = (message: string) => {
+    onProgress?.(Math.round((completedSteps / Math.max(totalSteps, 1)) * 100), message);
+  };
+
+  const allocateMediaName = createNameAllocator();
+  const allocateAudioName = createNameAllocator();
+
+  // Whole files are copied once even if several items reference them
+  const copiedMedia = new Map<string, string>();
+  const copyMedia = async (sourcePath: string): Promise<string> => {
+    const existing = copiedMedia.get(sourcePath);
+    if (existing) return existing;
+
+    report(`Copying ${basename(sourcePath)}`);
+    const targetPath = joinPath(mediaDir, allocateMediaName(basename(sourcePath)));
+    try {
+      await copyFile(sourcePath, targetPath);
+    } catch (error) {
+      throw new Error(`Failed to copy ${sourcePath}: ${error}`);
+    }
+    copiedMedia.set(sourcePath, targetPath);
+    completedSteps++;
+    return targetPath;
+  };
+
+  const packageItems = async (items: MediaItem[]): Promise<MediaItem[]> => {
+    const packagedItems: MediaItem[] = [];
+    const sortedItems = [...items].sort((a, b) => a.order - b.order);
+
+    for (const item of sortedItems) {
+      if (!trimToClips || item.type !== 'video' || !item.clips || item.clips.length === 0) {
+        const filepath = await copyMedia(item.filepath);
+        packagedItems.push({ ...item, filepath, filename: basename(filepath) });
+        continue;
+      }
+
+      // Each clip becomes its own item pointing at a short re-encoded file. The combined
+      // video cuts straight from one clip of an item to the next and shows its caption once,
+      // so only the first part keeps the caption and only the last part the transition out.
+      for (let clipIdx = 0; clipIdx < item.clips.length; clipIdx++) {
+        const clip = item.clips[clipIdx];
+        const segmentStart = Math.max(0, clip.start - CLIP_HANDLE_SECONDS);
+        const segmentEnd = item.duration !== undefined
+          ? Math.min(item.duration, clip.end + CLIP_HANDLE_SECONDS)
+          : clip.end + CLIP_HANDLE_SECONDS;
+
+        const filename = allocateMediaName(`${stem(item.filepath)}_clip${clipIdx + 1}.mp4`);
+        const filepath = joinPath(mediaDir, filename);
+
+        report(`Trimming ${item.filename} (clip ${clipIdx + 1} of ${item.clips.length})`);
+        try {
+          await extractClip(item.filepath, segmentStart, segmentEnd, filepath);
+        } catch (error) {
+          throw new Error(`Failed to trim ${item.filepath}: ${error}`);
+        }
+        completedSteps++;
+
+        // Upright now, so a quarter-turned source has its width and height swapped
+        let resolution = item.resolution;
+        try {
+          resolution = await invoke<string>('get_video_resolution', { path: filepath });
+        } catch (error) {
+          console.warn('Could not get resolution for', filepath, error);
+        }
+
+        packagedItems.push({
+          ...item,
+          id: item.clips.length > 1 ? `${item.id}-${clip.id}` : item.id,
+          filename,
+          filepath,
+          duration: segmentEnd - segmentStart,
+          resolution,
+          // The user's own rotation and flip still apply on top
+          sourceOrientation: UPRIGHT,
+          caption: clipIdx === 0 ? item.caption : '',
+          showCaption: clipIdx === 0 ? item.showCaption : false,
+          transition: clipIdx === item.clips.length - 1 ? item.transition : { type: 'none', duration: DEFAULT_TRANSITION.duration },
+          clips: [{
+            ...clip,
+            start: clip.start - segmentStart,
+            end: clip.end - segmentStart
+          }]
+        });
+      }
+    }
+
+    return packagedItems.map((item, index) => ({ ...item, order: index }));
+  };
+
+  const copiedAudio = new Map<string, string>();
+  const copyAudio = async (sourcePath: string): Promise<string> => {
+    const existing = copiedAudio.get(sourcePath);
+    if (existing) return existing;
+
+    report(`Copying ${basename(sourcePath)}`);
+    const targetPath = joinPath(audioDir, allocateAudioName(basename(sourcePath)));
+    try {
+      await copyFile(sourcePath, targetPath);
+    } catch (error) {
+      throw new Error(`Failed to copy ${sourcePath}: ${error}`);
+    }
+    copiedAudio.set(sourcePath, targetPath);
+    completedSteps++;
+    return targetPath;
+  };
+
+  const sequences: Sequence[] = [];
+  for (const sequence of data.sequences) {
+    const mediaItems = await packageItems(sequence.mediaItems);
+    const audioTracks = [];
+    for (const track of sequence.audioTracks) {
+      const filepath = await copyAudio(track.filepath);
+      audioTracks.push({ ...track, filepath, filename: basename(filepath) });
+    }
+    sequences.push({ ...sequence, mediaItems, audioTracks });
+  }
+
+  // Trimmed packages only carry the footage the sequences use
+  let mediaPool: MediaPoolItem[] = [];
+  if (trimToClips) {
+    mediaPool = sequences.reduce((pool, sequence) => mergeIntoMediaPool(pool, sequence.mediaItems), mediaPool);
+  } else {
+    for (const entry of data.mediaPool) {
+      const filepath = await copyMedia(entry.filepath);
+      mediaPool.push({ ...entry, filepath, filename: basename(filepath) });
+    }
+  }
+
+  const audioFiles: AudioItem[] = [];
+  for (const file of data.audioFiles) {
+    const filepath = await copyAudio(file.filepath);
+    audioFiles.push({ ...file, filepath, filename: basename(filepath) });
+  }
+
+  const selectedStillExists = sequences.some(sequence =>
+    sequence.mediaItems.some(item => item.id === data.selectedItemId)
+  );
+
+  const packagedData: ProjectData = {
+    ...data,
+    sequences,
+    mediaPool,
+    audioFiles,
+    selectedItemId: selectedStillExists ? data.selectedItemId : null
+  };
+
+  // Everything lives under the package folder, so all paths are saved relative to it
+  const projectPath = joinPath(packageDir, `${projectName}.cjproj`);
+  await saveProjectFile(projectPath, packagedData);
+
+  if (!createArchive) {
+    onProgress?.(100, 'Done');
+    return packageDir;
+  }
+
+  report('Creating archive');
+  await invoke('zip_directory', { sourceDir: packageDir, zipPath: archivePath });
+  await remove(packageDir, { recursive: true });
+
+  onProgress?.(100, 'Done');
+  return archivePath;
+}
+
+// Returns the path of the packaged folder or archive
+export async function packageProject(
+  data: ProjectData,
+  options: PackageProjectOptions
+): Promise<string> {
+  const { destinationDir, projectName, createArchive } = options;
+
+  const packageDir = joinPath(destinationDir, projectName);
+  const archivePath = `${packageDir}.zip`;
+
+  if (await exists(packageDir)) {
+    throw new Error(`A folder named "${projectName}" already exists in the destination.`);
+  }
+  if (createArchive && (await exists(archivePath))) {
+    throw new Error(`An archive named "${projectName}.zip" already exists in the destination.`);
+  }
+
+  try {
+    return await writePackage(data, options, packageDir, archivePath);
+  } catch (error) {
+    // A half-written package would look complete, so nothing of it is left behind
+    for (const path of [packageDir, archivePath]) {
+      try {
+        if (await exists(path)) await remove(path, { recursive: true });
+      } catch (removeError) {
+        console.error(`Could not remove incomplete package ${path}:`, removeError);
+      }
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,112 @@
+// src/utils/paths.ts
+// Path helpers that work with both Windows (C:\...) and POSIX (/...) paths
+
+const isWindowsPath = (path: string) => /^[A-Za-z]:/.test(path) || path.startsWith('\\\\');
+
+// Separator used by the given path (defaults to the native Windows separator for drive paths)
+export function getSeparator(path: string): string {
+  if (isWindowsPath(path)) return '\\';
+  return path.includes('\\') && !path.includes('/') ? '\\' : '/';
+}
+
+export function isAbsolutePath(path: string): boolean {
+  return /^[A-Za-z]:[\\/]/.test(path) || path.startsWith('/') || path.startsWith('\\\\');
+}
+
+function splitSegments(path: string): string[] {
+  return path.split(/[\\/]+/).filter(segment => segment.length > 0);
+}
+
+// Root part of an absolute path: "C:\", "\\server\share\", "/" or "" for relative paths
+function getRoot(path: string): string {
+  const drive = path.match(/^[A-Za-z]:[\\/]?/);
+  if (drive) return drive[0].slice(0, 2) + '\\';
+  const unc = path.match(/^\\\\[^\\/]+[\\/][^\\/]+[\\/]?/);
+  if (unc) return unc[0].replace(/[\\/]?$/, '\\');
+  return path.startsWith('/') ? '/' : '';
+}
+
+export function basename(path: string): string {
+  const segments = splitSegments(path);
+  return segments[segments.length - 1] || path;
+}
+
+export function dirname(path: string): string {
+  const index = Math.max(path.lastIndexOf('\\'), path.lastIndexOf('/'));
+  if (index === -1) return '';
+  if (index === 0) return path.substring(0, 1);
+  // Keep the separator for drive roots so "C:\file" resolves to "C:\"
+  if (/^[A-Za-z]:$/.test(path.substring(0, index))) return path.substring(0, index + 1);
+  return path.substring(0, index);
+}
+
+// File name without its extension
+export function stem(path: string): string {
+  const name = basename(path);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.substring(0, dot) : name;
+}
+
+// Path with its extension replaced (or removed when newExtension is empty)
+export function replaceExtension(path: string, newExtension: string): string {
+  const dir = dirname(path);
+  const name = stem(path) + newExtension;
+  return dir ? joinPath(dir, name) : name;
+}
+
+function normalizeSegments(segments: string[]): string[] {
+  const result: string[] = [];
+  for (const segment of segments) {
+    if (segment === '.') continue;
+    if (segment === '..' && result.length > 0 && result[result.length - 1] !== '..') {
+      result.pop();
+    } else {
+      result.push(segment);
+    }
+  }
+  return result;
+}
+
+export function joinPath(base: string, ...parts: string[]): string {
+  const separator = getSeparator(base);
+  const root = getRoot(base);
+  const segments = normalizeSegments([
+    ...splitSegments(base.substring(root.length)),
+    ...parts.flatMap(splitSegments)
+  ]);
+  const rootPart = root === '/' ? '/' : root.replace(/\\/g, separator);
+  return rootPart + segments.join(separator);
+}
+
+// Resolve a path that may be relative to baseDir; absolute paths are returned unchanged
+export function resolvePath(baseDir: string, path: string): string {
+  return isAbsolutePath(path) ? path : joinPath(baseDir, path);
+}
+
+// Relative path from fromDir to target using "/" separators, or null when the two
+// paths don't share a root (e.g. different drives) and can't be expressed relatively
+export function toRelativePath(fromDir: string, target: string): string | null {
+  if (!isAbsolutePath(fromDir) || !isAbsolutePath(target)) return null;
+
+  const caseInsensitive = isWindowsPath(fromDir) || isWindowsPath(target);
+  const compare = (a: string, b: string) => caseInsensitive ? a.toLowerCase() === b.toLowerCase() : a === b;
+
+  const fromRoot = getRoot(fromDir);
+  const targetRoot = getRoot(target);
+  if (!compare(fromRoot, targetRoot)) return null;
+
+  const fromSegments = normalizeSegments(splitSegments(fromDir.substring(fromRoot.length)));
+  const targetSegments = normalizeSegments(splitSegments(target.substring(targetRoot.length)));
+
+  let common = 0;
+  while (
+    common < fromSegments.length &&
+    common < targetSegments.length &&
+    compare(fromSegments[common], targetSegments[common])
+  ) {
+    common++;
+  }
+
+  const ups = fromSegments.slice(common).map(() => '..');
+  return [...ups, ...targetSegments.slice(common)].join('/') || '.';
+}
@@ -0,0 +1,78 @@
+// src/utils/photoMotion.ts
+// Ken Burns pan and zoom for photos: every motion comes down to a start and end framing
+// of the output frame, which the render interpolates with zoompan and the preview with CSS
+
+import { MediaItem, MotionRect, PhotoMotionType } from '../types';
+
+export const PHOTO_MOTION_TYPES: { value: PhotoMotionType; label: string }[] = [
+  { value: 'none', label: 'Static' },
+  { value: 'zoom-in', label: 'Zoom in' },
+  { value: 'zoom-out', label: 'Zoom out' },
+  { value: 'pan-left', label: 'Pan left' },
+  { value: 'pan-right', label: 'Pan right' },
+  { value: 'pan-up', label: 'Pan up' },
+  { value: 'pan-down', label: 'Pan down' },
+  { value: 'random', label: 'Random' },
+  { value: 'custom', label: 'Custom' }
+];
+
+// Smallest framing allowed, i.e. at most a 1 / MIN_MOTION_SIZE zoom
+export const MIN_MOTION_SIZE = 0.3;
+
+export const FULL_FRAME: MotionRect = { x: 0, y: 0, size: 1 };
+
+type PresetMotionType = Exclude<PhotoMotionType, 'none' | 'random' | 'custom'>;
+
+const PRESETS: Record<PresetMotionType, { start: MotionRect; end: MotionRect }> = {
+  'zoom-in': { start: FULL_FRAME, end: { x: 0.1, y: 0.1, size: 0.8 } },
+  'zoom-out': { start: { x: 0.1, y: 0.1, size: 0.8 }, end: FULL_FRAME },
+  'pan-left': { start: { x: 0.15, y: 0.075, size: 0.85 }, end: { x: 0, y: 0.075, size: 0.85 } },
+  'pan-right': { start: { x: 0, y: 0.075, size: 0.85 }, end: { x: 0.15, y: 0.075, size: 0.85 } },
+  'pan-up': { start: { x: 0.075, y: 0.15, size: 0.85 }, end: { x: 0.075, y: 0, size: 0.85 } },
+  'pan-down': { start: { x: 0.075, y: 0, size: 0.85 }, end: { x: 0.075, y: 0.15, size: 0.85 } }
+};
+
+const PRESET_TYPES = Object.keys(PRESETS) as PresetMotionType[];
+
+export function getPresetRects(type: PresetMotionType): { start: MotionRect; end: MotionRect } {
+  return PRESETS[type];
+}
+
+// Keeps a framing inside the frame
+export function clampMotionRect(rect: MotionRect): MotionRect {
+  const size = Math.min(1, Math.max(MIN_MOTION_SIZE, rect.size));
+  return {
+    x: Math.min(1 - size, Math.max(0, rect.x)),
+    y: Math.min(1 - size, Math.max(0, rect.y)),
+    size
+  };
+}
+
+// 'random' picks a preset from the item id rather than Math.random, so the same photo moves
+// the same way in the preview, in every render and in the render cache key
+function pickRandomPreset(itemId: string): PresetMotionType {
+  let hash = 0;
+  for (let i = 0; i < itemId.length; i++) {
+    hash = (hash * 31 + itemId.charCodeAt(i)) >>> 0;
+  }
+  return PRESET_TYPES[hash % PRESET_TYPES.length];
+}
+
+// Start and end framing of a photo; null when it doesn't move
+export function getMotionRects(item: MediaItem): { start: MotionRect; end: MotionRect } | null {
+  if (item.type !== 'image' || !item.motion || item.motion.type === 'none') return null;
+
+  const { type } = item.motion;
+  if (type === 'custom') {
+    const start = clampMotionRect(item.motion.start ?? FULL_FRAME);
+    const end = clampMotionRect(item.motion.end ?? FULL_FRAME);
+    const isStatic = start.x === end.x && start.y === end.y && start.size === end.size;
+    return isStatic && start.size === 1 ? null : { start, end };
+  }
+  return PRESETS[type === 'random' ? pickRandomPreset(item.id) : type];
+}
+
+// CSS transform that fills an element with the given part of it (needs transform-origin 0 0)
+export function getMotionTransform(rect: MotionRect): string {
+  return `scale(${1 / rect.size}) translate(${-rect.x * 100}%, ${-rect.y * 100}%)`;
+}
@@ -0,0 +1,742 @@
+// src/utils/projectFile.ts
+// Typed .cjproj schema: serialization, validation and version migrations
+
+import { readTextFile, writeTextFile } from '@tauri-apps/plugin-fs';
+import { MediaItem, ClipRange, FramingMode, Transition } from '../types';
+import { CaptionSettings, DEFAULT_CAPTION_SETTINGS } from '../components/Captionsettingsmodal';
+import { AudioTrack } from '../components/AudioTimeline';
+import { AudioItem } from '../components/AudioFileList';
+import { dirname, resolvePath, toRelativePath } from './paths';
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  EXPORT_CODECS,
+  ExportSettings,
+  QUALITY_PRESETS,
+  fitExportSettings
+} from './exportProfiles';
+import { DEFAULT_TRANSITION, MAX_CLIP_SPEED, MIN_CLIP_SPEED, TRANSITION_TYPES } from './timeline';
+import { PHOTO_MOTION_TYPES } from './photoMotion';
+import { DEFAULT_FRAMING, FRAMING_MODES } from './framing';
+
+export const CURRENT_PROJECT_VERSION = '2.7';
+
+// One edit of the project's media with its own order, clips, captions, framing and music
+export interface Sequence {
+  id: string;
+  name: string;
+  mediaItems: MediaItem[];
+  aspectRatio: string;
+  // Output resolution as "WIDTHxHEIGHT"; null until chosen
+  targetResolution: string | null;
+  // Output frame rate as a rational like "30000/1001"; null renders at the sources' dominant rate
+  targetFrameRate: string | null;
+  audioTracks: AudioTrack[];
+  videoDuckingPercent: number;
+}
+
+// A file imported into the project, available to every sequence
+export type MediaPoolItem = Pick<
+  MediaItem,
+  'filename' | 'filepath' | 'type' | 'duration' | 'resolution' | 'frameRate' | 'sourceOrientation' | 'dateCreated'
+>;
+
+// In-memory project state, as used by App.tsx
+export interface ProjectData {
+  sequences: Sequence[];
+  activeSequenceId: string;
+  mediaPool: MediaPoolItem[];
+  outputFormat: string;
+  // Codec and quality of the final export; the codec always fits outputFormat
+  exportSettings: ExportSettings;
+  defaultPhotoDuration: number;
+  // Used between items that don't set their own transition
+  defaultTransition: Transition;
+  // Used for items that don't set their own framing
+  defaultFraming: FramingMode;
+  captionSettings: CaptionSettings;
+  splitPosition: number;
+  selectedItemId: string | null;
+  audioFiles: AudioItem[];
+}
+
+type WithDateString<T> = Omit<T, 'dateCreated'> & { dateCreated: string };
+
+// On-disk shape: dates are ISO strings and the file carries its schema version
+export interface ProjectFile extends Omit<ProjectData, 'sequences' | 'mediaPool'> {
+  version: string;
+  sequences: (Omit<Sequence, 'mediaItems'> & { mediaItems: WithDateString<MediaItem>[] })[];
+  mediaPool: WithDateString<MediaPoolItem>[];
+}
+
+const DEFAULT_SEQUENCE: Sequence = {
+  id: 'sequence_1',
+  name: 'Main',
+  mediaItems: [],
+  aspectRatio: '16:9',
+  targetResolution: null,
+  targetFrameRate: null,
+  audioTracks: [],
+  videoDuckingPercent: 50
+};
+
+export const DEFAULT_PROJECT_DATA: ProjectData = {
+  sequences: [DEFAULT_SEQUENCE],
+  activeSequenceId: DEFAULT_SEQUENCE.id,
+  mediaPool: [],
+  outputFormat: 'MP4',
+  exportSettings: DEFAULT_EXPORT_SETTINGS,
+  defaultPhotoDuration: 3,
+  defaultTransition: DEFAULT_TRANSITION,
+  defaultFraming: DEFAULT_FRAMING,
+  captionSettings: DEFAULT_CAPTION_SETTINGS,
+  splitPosition: 50,
+  selectedItemId: null,
+  audioFiles: []
+};
+
+export function createSequence(name: string, settings: Partial<Omit<Sequence, 'id' | 'name'>> = {}): Sequence {
+  return {
+    ...DEFAULT_SEQUENCE,
+    ...settings,
+    id: `sequence_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name
+  };
+}
+
+export function getActiveSequence(data: Pick<ProjectData, 'sequences' | 'activeSequenceId'>): Sequence {
+  return data.sequences.find(sequence => sequence.id === data.activeSequenceId) ?? data.sequences[0];
+}
+
+// Rendered files sit next to the project, named after the sequence id so they survive renaming,
+// reordering and deleting sequences. The default sequence of projects from before sequences
+// existed keeps the project's own names.
+export function getSequenceOutputPath(projectPath: string, sequence: Sequence, suffix: string): string {
+  const base = projectPath.replace(/\.cjproj$/i, '');
+  return sequence.id === DEFAULT_SEQUENCE.id ? `${base}${suffix}` : `${base}_${sequence.id}${suffix}`;
+}
+
+// Adds files used by the given items to the pool, and fills in metadata that loaded later
+export function mergeIntoMediaPool(pool: MediaPoolItem[], items: MediaItem[]): MediaPoolItem[] {
+  const byPath = new Map(pool.map(entry => [entry.filepath, entry]));
+  let changed = false;
+
+  for (const item of items) {
+    const existing = byPath.get(item.filepath);
+    if (!existing) {
+      byPath.set(item.filepath, {
+        filename: item.filename,
+        filepath: item.filepath,
+        type: item.type,
+        duration: item.duration,
+        resolution: item.resolution,
+        frameRate: item.frameRate,
+        sourceOrientation: item.sourceOrientation,
+        dateCreated: item.dateCreated
+      });
+      changed = true;
+    } else if (
+      (existing.duration === undefined && item.duration !== undefined) ||
+      (existing.resolution === undefined && item.resolution !== undefined) ||
+      (existing.frameRate === undefined && item.frameRate !== undefined) ||
+      (existing.sourceOrientation === undefined && item.sourceOrientation !== undefined)
+    ) {
+      byPath.set(item.filepath, {
+        ...existing,
+        duration: existing.duration ?? item.duration,
+        resolution: existing.resolution ?? item.resolution,
+        frameRate: existing.frameRate ?? item.frameRate,
+        sourceOrientation: existing.sourceOrientation ?? item.sourceOrientation
+      });
+      changed = true;
+    }
+  }
+
+  return changed ? Array.from(byPath.values()) : pool;
+}
+
+export class ProjectFileError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n- ${issues.join('\n- ')}` : message);
+    this.name = 'ProjectFileError';
+    this.issues = issues;
+  }
+}
+
+type RawProject = Record<string, unknown>;
+
+// Each migration upgrades a project from the keyed version to the next one.
+// Add a new entry here whenever the schema changes and bump CURRENT_PROJECT_VERSION.
+const MIGRATIONS: Record<string, { to: string; migrate: (raw: RawProject) => RawProject }> = {
+  // 1.0 -> 1.1: audio fields become first-class, caption settings are completed with defaults
+  '1.0': {
+    to: '1.1',
+    migrate: (raw) => ({
+      ...raw,
+      outputFormat: raw.outputFormat ?? DEFAULT_PROJECT_DATA.outputFormat,
+      defaultPhotoDuration: raw.defaultPhotoDuration ?? DEFAULT_PROJECT_DATA.defaultPhotoDuration,
+      captionSettings: { ...DEFAULT_CAPTION_SETTINGS, ...(raw.captionSettings ?? {}) },
+      aspectRatio: raw.aspectRatio ?? DEFAULT_SEQUENCE.aspectRatio,
+      splitPosition: raw.splitPosition ?? DEFAULT_PROJECT_DATA.splitPosition,
+      selectedItemId: raw.selectedItemId ?? null,
+      mediaItems: Array.isArray(raw.mediaItems)
+        ? raw.mediaItems.map((item: RawProject) => ({
+            ...item,
+            caption: item?.caption ?? '',
+            showCaption: item?.showCaption ?? false
+          }))
+        : raw.mediaItems,
+      audioTracks: Array.isArray(raw.audioTracks)
+        ? raw.audioTracks.map((track: RawProject) => ({
+            ...track,
+            fadeInDuration: track?.fadeInDuration ?? 0,
+            fadeOutDuration: track?.fadeOutDuration ?? 0
+          }))
+        : [],
+      audioFiles: raw.audioFiles ?? [],
+      videoDuckingPercent: raw.videoDuckingPercent ?? DEFAULT_SEQUENCE.videoDuckingPercent
+    })
+  },
+  // 1.1 -> 1.2: media and audio paths may be stored relative to the .cjproj.
+  // Older files only contain absolute paths, which remain valid as they are.
+  '1.1': {
+    to: '1.2',
+    migrate: (raw) => raw
+  },
+  // 1.2 -> 1.3: thumbnails moved to the on-disk cache, drop the embedded data URLs
+  '1.2': {
+    to: '1.3',
+    migrate: (raw) => ({
+      ...raw,
+      mediaItems: Array.isArray(raw.mediaItems)
+        ? raw.mediaItems.map(({ thumbnail, ...item }: RawProject) => item)
+        : raw.mediaItems
+    })
+  },
+  // 1.3 -> 1.4: output resolution is stored with the project
+  '1.3': {
+    to: '1.4',
+    migrate: (raw) => ({
+      ...raw,
+      targetResolution: raw.targetResolution ?? null
+    })
+  },
+  // 1.4 -> 2.0: the single timeline becomes the first of possibly several sequences,
+  // and its media seeds the shared media pool
+  '1.4': {
+    to: '2.0',
+    migrate: (raw) => {
+      const { mediaItems, aspectRatio, targetResolution, audioTracks, videoDuckingPercent, ...rest } = raw;
+      const poolByPath = new Map<string, RawProject>();
+      if (Array.isArray(mediaItems)) {
+        for (const item of mediaItems) {
+          if (item && typeof item.filepath === 'string' && !poolByPath.has(item.filepath)) {
+            const { filename, filepath, type, duration, resolution, dateCreated } = item;
+            poolByPath.set(filepath, { filename, filepath, type, duration, resolution, dateCreated });
+          }
+        }
+      }
+      return {
+        ...rest,
+        sequences: [{
+          id: DEFAULT_SEQUENCE.id,
+          name: DEFAULT_SEQUENCE.name,
+          mediaItems,
+          aspectRatio,
+          targetResolution,
+          audioTracks,
+          videoDuckingPercent
+        }],
+        activeSequenceId: DEFAULT_SEQUENCE.id,
+        mediaPool: Array.from(poolByPath.values())
+      };
+    }
+  },
+  // 2.0 -> 2.1: sequences can pick their output frame rate
+  '2.0': {
+    to: '2.1',
+    migrate: (raw) => ({
+      ...raw,
+      sequences: Array.isArray(raw.sequences)
+        ? raw.sequences.map((sequence: RawProject) => ({
+            ...sequence,
+            targetFrameRate: sequence?.targetFrameRate ?? null
+          }))
+        : raw.sequences
+    })
+  },
+  // 2.1 -> 2.2: the final export is encoded with a selectable profile
+  '2.1': {
+    to: '2.2',
+    migrate: (raw) => ({
+      ...raw,
+      exportSettings: raw.exportSettings ?? fitExportSettings(
+        typeof raw.outputFormat === 'string' ? raw.outputFormat : DEFAULT_PROJECT_DATA.outputFormat,
+        DEFAULT_EXPORT_SETTINGS
+      )
+    })
+  },
+  // 2.2 -> 2.3: items can be joined by transitions; existing projects keep their hard cuts
+  '2.2': {
+    to: '2.3',
+    migrate: (raw) => ({
+      ...raw,
+      defaultTransition: raw.defaultTransition ?? DEFAULT_TRANSITION
+    })
+  },
+  // 2.3 -> 2.4: photos can pan and zoom; existing photos stay static
+  '2.3': {
+    to: '2.4',
+    migrate: (raw) => raw
+  },
+  // 2.4 -> 2.5: items can be framed by fit, blur or fill; existing projects keep fitting with black bars
+  '2.4': {
+    to: '2.5',
+    migrate: (raw) => ({
+      ...raw,
+      defaultFraming: raw.defaultFraming ?? DEFAULT_FRAMING
+    })
+  },
+  // 2.5 -> 2.6: items record their detected orientation and can be rotated and flipped.
+  // Existing items have no detected orientation and keep rendering the way they did.
+  '2.5': {
+    to: '2.6',
+    migrate: (raw) => raw
+  },
+  // 2.6 -> 2.7: clips can be sped up or slowed down; existing clips play at normal speed
+  '2.6': {
+    to: '2.7',
+    migrate: (raw) => raw
+  }
+};
+
+function migrateProject(raw: RawProject): RawProject {
+  // Projects written before versioning was introduced are treated as 1.0
+  let current: RawProject = { ...raw, version: typeof raw.version === 'string' ? raw.version : '1.0' };
+
+  while (current.version !== CURRENT_PROJECT_VERSION) {
+    const step = typeof current.version === 'string' ? MIGRATIONS[current.version] : undefined;
+    if (!step) {
+      throw new ProjectFileError(
+        `Unsupported project version "${current.version}". ` +
+        `This version of ClipJourney reads projects up to version ${CURRENT_PROJECT_VERSION}.`
+      );
+    }
+    console.log(`Migrating project from ${current.version} to ${step.to}`);
+    current = { ...step.migrate(current), version: step.to };
+  }
+
+  return current;
+}
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is RawProject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T =>
+  (values as readonly unknown[]).includes(value);
+
+function checkString(obj: RawProject, key: string, path: string, issues: string[], optional = false) {
+  const value = obj[key];
+  if (value === undefined && optional) return;
+  if (typeof value !== 'string') issues.push(`${path}.${key} must be a string`);
+}
+
+function checkNumber(obj: RawProject, key: string, path: string, issues: string[], optional = false) {
+  const value = obj[key];
+  if (value === undefined && optional) return;
+  if (!isFiniteNumber(value)) issues.push(`${path}.${key} must be a number`);
+}
+
+function checkBoolean(obj: RawProject, key: string, path: string, issues: string[]) {
+  if (typeof obj[key] !== 'boolean') issues.push(`${path}.${key} must be true or false`);
+}
+
+function validateClips(clips: unknown, path: string, issues: string[]) {
+  if (clips === undefined) return;
+  if (!Array.isArray(clips)) {
+    issues.push(`${path} must be a list`);
+    return;
+  }
+  clips.forEach((clip, i) => {
+    const clipPath = `${path}[${i}]`;
+    if (!isObject(clip)) {
+      issues.push(`${clipPath} must be an object`);
+      return;
+    }
+    checkString(clip, 'id', clipPath, issues);
+    checkNumber(clip, 'start', clipPath, issues);
+    checkNumber(clip, 'end', clipPath, issues);
+    if (isFiniteNumber(clip.start) && isFiniteNumber(clip.end) && clip.end <= clip.start) {
+      issues.push(`${clipPath} ends before it starts (${clip.start}s - ${clip.end}s)`);
+    }
+    if (clip.speed !== undefined && (!isFiniteNumber(clip.speed) || clip.speed < MIN_CLIP_SPEED || clip.speed > MAX_CLIP_SPEED)) {
+      issues.push(`${clipPath}.speed must be between ${MIN_CLIP_SPEED} and ${MAX_CLIP_SPEED}`);
+    }
+  });
+}
+
+function validateTransition(transition: unknown, path: string, issues: string[]) {
+  if (!isObject(transition)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  const types = TRANSITION_TYPES.map(entry => entry.value);
+  if (!isOneOf(types, transition.type)) {
+    issues.push(`${path}.type must be one of ${types.join(', ')}`);
+  }
+  checkNumber(transition, 'duration', path, issues);
+  if (isFiniteNumber(transition.duration) && transition.duration <= 0) {
+    issues.push(`${path}.duration must be greater than 0`);
+  }
+}
+
+function validateOrientation(orientation: unknown, path: string, issues: string[]) {
+  if (orientation === undefined) return;
+  if (!isObject(orientation)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  if (!isOneOf([0, 90, 180, 270], orientation.rotation)) {
+    issues.push(`${path}.rotation must be 0, 90, 180 or 270`);
+  }
+  checkBoolean(orientation, 'flip', path, issues);
+}
+
+function validateFramingMode(mode: unknown, path: string, issues: string[]) {
+  const modes = FRAMING_MODES.map(entry => entry.value);
+  if (!isOneOf(modes, mode)) {
+    issues.push(`${path} must be one of ${modes.join(', ')}`);
+  }
+}
+
+function validateCropPosition(position: unknown, path: string, issues: string[]) {
+  if (!isObject(position)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  for (const key of ['x', 'y']) {
+    checkNumber(position, key, path, issues);
+    if (isFiniteNumber(position[key]) && (position[key] < 0 || position[key] > 1)) {
+      issues.push(`${path}.${key} must be between 0 and 1`);
+    }
+  }
+}
+
+function validateMotionRect(rect: unknown, path: string, issues: string[]) {
+  if (rect === undefined) return;
+  if (!isObject(rect)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  checkNumber(rect, 'x', path, issues);
+  checkNumber(rect, 'y', path, issues);
+  checkNumber(rect, 'size', path, issues);
+  if (isFiniteNumber(rect.size) && (rect.size <= 0 || rect.size > 1)) {
+    issues.push(`${path}.size must be between 0 and 1`);
+  }
+}
+
+function validateMotion(motion: unknown, path: string, issues: string[]) {
+  if (!isObject(motion)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  const types = PHOTO_MOTION_TYPES.map(entry => entry.value);
+  if (!isOneOf(types, motion.type)) {
+    issues.push(`${path}.type must be one of ${types.join(', ')}`);
+  }
+  validateMotionRect(motion.start, `${path}.start`, issues);
+  validateMotionRect(motion.end, `${path}.end`, issues);
+}
+
+function validateMediaItem(item: unknown, path: string, issues: string[]) {
+  if (!isObject(item)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  checkString(item, 'id', path, issues);
+  checkString(item, 'filename', path, issues);
+  checkString(item, 'filepath', path, issues);
+  if (item.type !== 'video' && item.type !== 'image') {
+    issues.push(`${path}.type must be "video" or "image"`);
+  }
+  checkNumber(item, 'duration', path, issues, true);
+  checkString(item, 'resolution', path, issues, true);
+  checkString(item, 'frameRate', path, issues, true);
+  checkNumber(item, 'photoDuration', path, issues, true);
+  if (typeof item.dateCreated !== 'string' || Number.isNaN(Date.parse(item.dateCreated))) {
+    issues.push(`${path}.dateCreated must be a valid date`);
+  }
+  checkString(item, 'caption', path, issues);
+  checkBoolean(item, 'showCaption', path, issues);
+  checkNumber(item, 'order', path, issues);
+  validateClips(item.clips, `${path}.clips`, issues);
+  if (item.transition !== undefined) {
+    validateTransition(item.transition, `${path}.transition`, issues);
+  }
+  if (item.motion !== undefined) {
+    validateMotion(item.motion, `${path}.motion`, issues);
+  }
+  if (item.framing !== undefined) {
+    validateFramingMode(item.framing, `${path}.framing`, issues);
+  }
+  if (item.cropPosition !== undefined) {
+    validateCropPosition(item.cropPosition, `${path}.cropPosition`, issues);
+  }
+  validateOrientation(item.sourceOrientation, `${path}.sourceOrientation`, issues);
+  validateOrientation(item.orientation, `${path}.orientation`, issues);
+}
+
+function validateCaptionSettings(settings: unknown, issues: string[]) {
+  const path = 'captionSettings';
+  if (!isObject(settings)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  const positions: CaptionSettings['position'][] = [
+    'bottom-left', 'bottom-center', 'bottom-right', 'top-left', 'top-center', 'top-right', 'center'
+  ];
+  if (!isOneOf(positions, settings.position)) {
+    issues.push(`${path}.position must be one of ${positions.join(', ')}`);
+  }
+  checkString(settings, 'fontFamily', path, issues);
+  checkNumber(settings, 'fontSize', path, issues);
+  checkString(settings, 'textColor', path, issues);
+  checkString(settings, 'backgroundColor', path, issues);
+  checkNumber(settings, 'backgroundOpacity', path, issues);
+  checkBoolean(settings, 'bold', path, issues);
+  checkBoolean(settings, 'italic', path, issues);
+}
+
+function validateExportSettings(settings: unknown, issues: string[]) {
+  const path = 'exportSettings';
+  if (!isObject(settings)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  const codecs = Object.keys(EXPORT_CODECS);
+  if (!isOneOf(codecs, settings.codec)) {
+    issues.push(`${path}.codec must be one of ${codecs.join(', ')}`);
+  }
+  const presets = QUALITY_PRESETS.map(preset => preset.value);
+  if (!isOneOf(presets, settings.preset)) {
+    issues.push(`${path}.preset must be one of ${presets.join(', ')}`);
+  }
+  if (settings.rateControl !== 'crf' && settings.rateControl !== 'bitrate') {
+    issues.push(`${path}.rateControl must be "crf" or "bitrate"`);
+  }
+  checkNumber(settings, 'crf', path, issues);
+  checkNumber(settings, 'bitrateKbps', path, issues);
+}
+
+function validatePoolItem(item: unknown, path: string, issues: string[]) {
+  if (!isObject(item)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  checkString(item, 'filename', path, issues);
+  checkString(item, 'filepath', path, issues);
+  if (item.type !== 'video' && item.type !== 'image') {
+    issues.push(`${path}.type must be "video" or "image"`);
+  }
+  checkNumber(item, 'duration', path, issues, true);
+  checkString(item, 'resolution', path, issues, true);
+  checkString(item, 'frameRate', path, issues, true);
+  validateOrientation(item.sourceOrientation, `${path}.sourceOrientation`, issues);
+  if (typeof item.dateCreated !== 'string' || Number.isNaN(Date.parse(item.dateCreated))) {
+    issues.push(`${path}.dateCreated must be a valid date`);
+  }
+}
+
+function validateSequence(sequence: unknown, path: string, issues: string[]) {
+  if (!isObject(sequence)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  checkString(sequence, 'id', path, issues);
+  checkString(sequence, 'name', path, issues);
+  validateList(sequence.mediaItems, `${path}.mediaItems`, issues, validateMediaItem);
+  checkString(sequence, 'aspectRatio', path, issues);
+  if (sequence.targetResolution !== null && !(typeof sequence.targetResolution === 'string' && /^\d+x\d+$/.test(sequence.targetResolution))) {
+    issues.push(`${path}.targetResolution must be null or like "1920x1080"`);
+  }
+  if (sequence.targetFrameRate !== null && !(typeof sequence.targetFrameRate === 'string' && /^\d+\/\d+$/.test(sequence.targetFrameRate))) {
+    issues.push(`${path}.targetFrameRate must be null or like "30000/1001"`);
+  }
+  validateList(sequence.audioTracks, `${path}.audioTracks`, issues, validateAudioTrack);
+  checkNumber(sequence, 'videoDuckingPercent', path, issues);
+}
+
+function validateAudioTrack(track: unknown, path: string, issues: string[]) {
+  if (!isObject(track)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  checkString(track, 'id', path, issues);
+  checkString(track, 'filename', path, issues);
+  checkString(track, 'filepath', path, issues);
+  for (const key of ['fullDuration', 'timelineStart', 'clipStart', 'clipEnd', 'volume', 'fadeInDuration', 'fadeOutDuration']) {
+    checkNumber(track, key, path, issues);
+  }
+}
+
+function validateAudioItem(item: unknown, path: string, issues: string[]) {
+  if (!isObject(item)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  checkString(item, 'id', path, issues);
+  checkString(item, 'filename', path, issues);
+  checkString(item, 'filepath', path, issues);
+}
+
+function validateList(value: unknown, path: string, issues: string[], validateEntry: (entry: unknown, path: string, issues: string[]) => void) {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be a list`);
+    return;
+  }
+  value.forEach((entry, i) => validateEntry(entry, `${path}[${i}]`, issues));
+}
+
+function validateProject(raw: RawProject): ProjectFile {
+  const issues: string[] = [];
+
+  validateList(raw.sequences, 'sequences', issues, validateSequence);
+  if (Array.isArray(raw.sequences)) {
+    if (raw.sequences.length === 0) {
+      issues.push('sequences must contain at least one sequence');
+    } else if (!raw.sequences.some((sequence: RawProject) => sequence?.id === raw.activeSequenceId)) {
+      issues.push('project.activeSequenceId must match one of the sequences');
+    }
+  }
+  validateList(raw.mediaPool, 'mediaPool', issues, validatePoolItem);
+  checkString(raw, 'outputFormat', 'project', issues);
+  validateExportSettings(raw.exportSettings, issues);
+  checkNumber(raw, 'defaultPhotoDuration', 'project', issues);
+  validateTransition(raw.defaultTransition, 'defaultTransition', issues);
+  validateFramingMode(raw.defaultFraming, 'project.defaultFraming', issues);
+  validateCaptionSettings(raw.captionSettings, issues);
+  checkNumber(raw, 'splitPosition', 'project', issues);
+  if (raw.selectedItemId !== null && typeof raw.selectedItemId !== 'string') {
+    issues.push('project.selectedItemId must be a string or null');
+  }
+  validateList(raw.audioFiles, 'audioFiles', issues, validateAudioItem);
+
+  if (issues.length > 0) {
+    throw new ProjectFileError('The project file is invalid:', issues);
+  }
+
+  // Every field was checked above
+  return raw as unknown as ProjectFile;
+}
+
+// --- Public API ---
+
+// Apply a mapping to every entry that references a file: sequence items and audio tracks,
+// the media pool and the audio library
+export function mapProjectFiles(
+  data: ProjectData,
+  mapEntry: <T extends { filename: string; filepath: string }>(entry: T) => T
+): ProjectData {
+  return {
+    ...data,
+    sequences: data.sequences.map(sequence => ({
+      ...sequence,
+      mediaItems: sequence.mediaItems.map(mapEntry),
+      audioTracks: sequence.audioTracks.map(mapEntry)
+    })),
+    mediaPool: data.mediaPool.map(mapEntry),
+    audioFiles: data.audioFiles.map(mapEntry)
+  };
+}
+
+// Rewrite every media and audio path in the project with the given mapping
+export function mapProjectPaths(data: ProjectData, mapPath: (path: string) => string): ProjectData {
+  return mapProjectFiles(data, entry => ({ ...entry, filepath: mapPath(entry.filepath) }));
+}
+
+// Every media and audio file the project references, without duplicates
+export function getProjectFilePaths(data: ProjectData): string[] {
+  const paths = new Set<string>();
+  mapProjectFiles(data, entry => {
+    paths.add(entry.filepath);
+    return entry;
+  });
+  return Array.from(paths);
+}
+
+// projectPath is the location of the .cjproj; relative media paths are resolved against its folder
+export function parseProject(content: string, projectPath: string): ProjectData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new ProjectFileError(`The project file is not valid JSON: ${error}`);
+  }
+
+  if (!isObject(raw)) {
+    throw new ProjectFileError('The project file does not contain a project object.');
+  }
+
+  const file = validateProject(migrateProject(raw));
+  const { version: _version, ...data } = file;
+
+  const projectData: ProjectData = {
+    ...data,
+    sequences: file.sequences.map(sequence => ({
+      ...sequence,
+      mediaItems: sequence.mediaItems.map(item => ({
+        ...item,
+        clips: item.clips?.map((clip: ClipRange) => ({ ...clip })),
+        dateCreated: new Date(item.dateCreated)
+      }))
+    })),
+    mediaPool: file.mediaPool.map(item => ({
+      ...item,
+      dateCreated: new Date(item.dateCreated)
+    }))
+  };
+
+  const projectDir = dirname(projectPath);
+  return mapProjectPaths(projectData, path => resolvePath(projectDir, path));
+}
+
+// Paths are written relative to the project folder when they share a drive/root with it,
+// so a trip folder can be moved or copied as a whole without breaking the project
+export function serializeProject(data: ProjectData, projectPath: string): string {
+  const projectDir = dirname(projectPath);
+  const relativeData = mapProjectPaths(data, path => toRelativePath(projectDir, path) ?? path);
+
+  const file: ProjectFile = {
+    version: CURRENT_PROJECT_VERSION,
+    ...relativeData,
+    sequences: relativeData.sequences.map(sequence => ({
+      ...sequence,
+      mediaItems: sequence.mediaItems.map(item => ({
+        ...item,
+        dateCreated: item.dateCreated.toISOString()
+      }))
+    })),
+    mediaPool: relativeData.mediaPool.map(item => ({
+      ...item,
+      dateCreated: item.dateCreated.toISOString()
+    }))
+  };
+
+  return JSON.stringify(file, null, 2);
+}
+
+export async function loadProjectFile(filePath: string): Promise<ProjectData> {
+  const content = await readTextFile(filePath);
+  return parseProject(content, filePath);
+}
+
+export async function saveProjectFile(filePath: string, data: ProjectData): Promise<void> {
+  await writeTextFile(filePath, serializeProject(data, filePath));
+}
@@ -1,17 +1,68 @@
 // src/utils/projectHash.ts
 
-import { MediaItem } from '../types';
+import { exists, readTextFile, writeTextFile } from '@tauri-apps/plugin-fs';
+import { ClipRange, CropPosition, FramingMode, MediaItem, Orientation, PhotoMotion, Transition } from '../types';
 import { CaptionSettings } from '../components/Captionsettingsmodal';
+import { AudioTrack } from '../components/AudioTimeline';
+import { EncoderSettings, INTERMEDIATE_ENCODER_SETTINGS } from './encoderSettings';
+import { SourceFingerprint, getSourceFingerprint, sha256Hex } from './renderCache';
+import { ExportSettings } from './exportProfiles';
 
 interface HashableProject {
   mediaItems: MediaItem[];
   captionSettings: CaptionSettings;
   aspectRatio: string;
   defaultPhotoDuration: number;
+  defaultTransition: Transition;
+  defaultFraming: FramingMode;
 }
 
-export function generateProjectHash(project: HashableProject): string {
-  const hashData = {
+// Everything that affects the combined video. Stored in the snapshot so it's clear
+// which inputs produced the cached render.
+export interface RenderInputs {
+  mediaItems: {
+    id: string;
+    filepath: string;
+    type: MediaItem['type'];
+    clips: ClipRange[];
+    caption: string;
+    showCaption: boolean;
+    photoDuration?: number;
+    duration?: number;
+    transition?: Transition;
+    motion?: PhotoMotion;
+    framing?: FramingMode;
+    cropPosition?: CropPosition;
+    sourceOrientation?: Orientation;
+    orientation?: Orientation;
+    source: SourceFingerprint | null;
+  }[];
+  captionSettings: CaptionSettings;
+  aspectRatio: string;
+  defaultPhotoDuration: number;
+  // Missing in snapshots made before items could be joined by transitions
+  defaultTransition: Transition;
+  // Missing in snapshots made before items could be framed other than with black bars
+  defaultFraming: FramingMode;
+  targetResolution: string;
+  // Missing in snapshots made before the output frame rate was selectable
+  frameRate: string;
+  encoder: EncoderSettings;
+}
+
+export async function collectRenderInputs(
+  project: HashableProject,
+  targetResolution: string,
+  frameRate: string
+): Promise<RenderInputs> {
+  // Files shared by several items are only checked once
+  const uniquePaths = Array.from(new Set(project.mediaItems.map(item => item.filepath)));
+  const fingerprints = new Map<string, SourceFingerprint | null>();
+  await Promise.all(uniquePaths.map(async path => {
+    fingerprints.set(path, await getSourceFingerprint(path));
+  }));
+
+  return {
     mediaItems: project.mediaItems.map(item => ({
       id: item.id,
       filepath: item.filepath,
@@ -20,17 +71,37 @@ export function generateProjectHash(project: HashableProject): string {
       caption: item.caption || '',
       showCaption: item.showCaption || false,
       photoDuration: item.photoDuration,
-      duration: item.duration
+      duration: item.duration,
+      transition: item.transition,
+      motion: item.motion,
+      framing: item.framing,
+      cropPosition: item.cropPosition,
+      sourceOrientation: item.sourceOrientation,
+      orientation: item.orientation,
+      source: fingerprints.get(item.filepath) ?? null
     })),
     captionSettings: project.captionSettings,
     aspectRatio: project.aspectRatio,
-    defaultPhotoDuration: project.defaultPhotoDuration
+    defaultPhotoDuration: project.defaultPhotoDuration,
+    defaultTransition: project.defaultTransition,
+    defaultFraming: project.defaultFraming,
+    targetResolution,
+    frameRate,
+    encoder: INTERMEDIATE_ENCODER_SETTINGS
   };
-  
-  return simpleHash(JSON.stringify(hashData));
 }
 
-// Simple hash function (good enough for change detection)
+// SHA-256 of the render inputs, hex encoded
+export async function generateRenderHash(inputs: RenderInputs): Promise<string> {
+  return sha256Hex(JSON.stringify(inputs));
+}
+
+// Hash of the audio that gets mixed into the final export
+export function generateAudioHash(audioTracks: AudioTrack[], videoDuckingPercent: number): string {
+  return simpleHash(JSON.stringify({ audioTracks, videoDuckingPercent }));
+}
+
+// Simple hash function (good enough for change detection in memory)
 function simpleHash(str: string): string {
   let hash = 0;
   for (let i = 0; i < str.length; i++) {
@@ -41,6 +112,8 @@ function simpleHash(str: string): string {
   return Math.abs(hash).toString(16);
 }
 
+export const SNAPSHOT_VERSION = '2.0';
+
 export interface ProjectSnapshot {
   version: string;
   projectHash: string;
@@ -48,20 +121,46 @@ export interface ProjectSnapshot {
   combinedVideoPath: string;
   mediaItemCount: number;
   totalDuration: number;
+  // Inputs that produced combinedVideoPath (missing in snapshots older than 2.0)
+  inputs?: RenderInputs;
+  // Set once the final video has been exported from this combined video
+  finalVideoPath?: string;
+  audioHash?: string;
+  exportSettings?: ExportSettings;
 }
 
 export function createSnapshot(
   projectHash: string,
+  inputs: RenderInputs,
   combinedVideoPath: string,
   mediaItemCount: number,
   totalDuration: number
 ): ProjectSnapshot {
   return {
-    version: '1.0',
+    version: SNAPSHOT_VERSION,
     projectHash,
     timestamp: Date.now(),
     combinedVideoPath,
     mediaItemCount,
-    totalDuration
+    totalDuration,
+    inputs
   };
-}
\ No newline at end of file
+}
+
+// Loads the snapshot of a sequence's last render, if its combined video still exists
+export async function readProjectSnapshot(snapshotPath: string): Promise<ProjectSnapshot | null> {
+  try {
+    if (!(await exists(snapshotPath))) return null;
+
+    const content = await readTextFile(snapshotPath);
+    const snapshot: ProjectSnapshot = JSON.parse(content);
+    return (await exists(snapshot.combinedVideoPath)) ? snapshot : null;
+  } catch (error) {
+    console.error('Error loading snapshot:', error);
+    return null;
+  }
+}
+
+export async function writeProjectSnapshot(snapshotPath: string, snapshot: ProjectSnapshot): Promise<void> {
+  await writeTextFile(snapshotPath, JSON.stringify(snapshot, null, 2));
+}
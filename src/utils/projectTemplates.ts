@@ -0,0 +1,110 @@
+// src/utils/projectTemplates.ts
+// Named presets of project-wide settings, stored in the app settings store
+
+import { load } from '@tauri-apps/plugin-store';
+import { DEFAULT_CAPTION_SETTINGS } from '../components/Captionsettingsmodal';
+import {
+  ProjectData,
+  Sequence,
+  DEFAULT_PROJECT_DATA,
+  createSequence,
+  getActiveSequence
+} from './projectFile';
+
+const TEMPLATES_KEY = 'projectTemplates';
+
+// Aspect ratio, resolution, frame rate and ducking come from the active sequence, the rest is project-wide
+export type TemplateSettings =
+  Pick<
+    ProjectData,
+    'outputFormat' | 'exportSettings' | 'defaultPhotoDuration' | 'defaultTransition' | 'defaultFraming' | 'captionSettings'
+  > &
+  Pick<Sequence, 'aspectRatio' | 'targetResolution' | 'targetFrameRate' | 'videoDuckingPercent'>;
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  createdAt: string;
+  settings: TemplateSettings;
+}
+
+export function getTemplateSettings(data: ProjectData): TemplateSettings {
+  const sequence = getActiveSequence(data);
+  return {
+    outputFormat: data.outputFormat,
+    exportSettings: data.exportSettings,
+    defaultPhotoDuration: data.defaultPhotoDuration,
+    defaultTransition: data.defaultTransition,
+    defaultFraming: data.defaultFraming,
+    captionSettings: data.captionSettings,
+    aspectRatio: sequence.aspectRatio,
+    targetResolution: sequence.targetResolution,
+    targetFrameRate: sequence.targetFrameRate,
+    videoDuckingPercent: sequence.videoDuckingPercent
+  };
+}
+
+// Templates saved by older versions may lack newer settings; fill them from the defaults
+function normalizeTemplate(template: ProjectTemplate): ProjectTemplate {
+  const defaults = getTemplateSettings(DEFAULT_PROJECT_DATA);
+  return {
+    ...template,
+    settings: {
+      ...defaults,
+      ...template.settings,
+      captionSettings: { ...DEFAULT_CAPTION_SETTINGS, ...template.settings?.captionSettings },
+      exportSettings: { ...defaults.exportSettings, ...template.settings?.exportSettings }
+    }
+  };
+}
+
+export async function loadTemplates(): Promise<ProjectTemplate[]> {
+  const store = await load('settings.json', { autoSave: false, defaults: {} });
+  const stored = await store.get<ProjectTemplate[]>(TEMPLATES_KEY);
+  if (!Array.isArray(stored)) return [];
+  return stored
+    .filter(template => template && typeof template.name === 'string')
+    .map(normalizeTemplate);
+}
+
+async function storeTemplates(templates: ProjectTemplate[]): Promise<void> {
+  const store = await load('settings.json', { autoSave: false, defaults: {} });
+  await store.set(TEMPLATES_KEY, templates);
+  await store.save();
+}
+
+// Saves a template, replacing any existing one with the same name (case-insensitive)
+export async function saveTemplate(name: string, settings: TemplateSettings): Promise<ProjectTemplate[]> {
+  const templates = await loadTemplates();
+  const template: ProjectTemplate = {
+    id: `template_${Date.now()}`,
+    name,
+    createdAt: new Date().toISOString(),
+    settings
+  };
+
+  const updated = [
+    ...templates.filter(existing => existing.name.toLowerCase() !== name.toLowerCase()),
+    template
+  ].sort((a, b) => a.name.localeCompare(b.name));
+
+  await storeTemplates(updated);
+  return updated;
+}
+
+export async function deleteTemplate(id: string): Promise<ProjectTemplate[]> {
+  const updated = (await loadTemplates()).filter(template => template.id !== id);
+  await storeTemplates(updated);
+  return updated;
+}
+
+export function createProjectFromTemplate(template: ProjectTemplate): ProjectData {
+  const { aspectRatio, targetResolution, targetFrameRate, videoDuckingPercent, ...projectSettings } = template.settings;
+  const sequence = createSequence('Main', { aspectRatio, targetResolution, targetFrameRate, videoDuckingPercent });
+  return {
+    ...DEFAULT_PROJECT_DATA,
+    ...projectSettings,
+    sequences: [sequence],
+    activeSequenceId: sequence.id
+  };
+}
@@ -0,0 +1,117 @@
+// src/utils/renderCache.ts
+// Cache of preprocessed per-item files, so combining only re-encodes items that changed
+
+import { exists, readDir, remove, stat } from '@tauri-apps/plugin-fs';
+import { FramingMode, MediaItem } from '../types';
+import { CaptionSettings } from '../components/Captionsettingsmodal';
+import { EncoderSettings } from './encoderSettings';
+import { joinPath } from './paths';
+import { getItemFraming } from './framing';
+import { getMotionRects } from './photoMotion';
+import { getClipSpeed } from './timeline';
+
+// Size and modification time of a source file; null if it couldn't be read
+export interface SourceFingerprint {
+  size: number;
+  modified: number | null;
+}
+
+// Settings shared by every item of a render that change what its preprocessed file looks like
+export interface ItemRenderSettings {
+  captionSettings: CaptionSettings;
+  defaultPhotoDuration: number;
+  defaultFraming: FramingMode;
+  width: number;
+  height: number;
+  // Rational like "30000/1001"
+  frameRate: string;
+  encoder: EncoderSettings;
+}
+
+const CACHED_ITEM_PREFIX = 'item_';
+
+// Finished cache entries; partial encodes, clip parts and batches don't match
+const COMPLETE_ITEM_PATTERN = /^item_[a-z0-9_]+\.mp4$/i;
+
+export async function getSourceFingerprint(filepath: string): Promise<SourceFingerprint | null> {
+  try {
+    const info = await stat(filepath);
+    return { size: info.size, modified: info.mtime ? info.mtime.getTime() : null };
+  } catch (error) {
+    console.error(`Could not stat ${filepath}:`, error);
+    return null;
+  }
+}
+
+// SHA-256 of a string, hex encoded
+export async function sha256Hex(text: string): Promise<string> {
+  const bytes = new TextEncoder().encode(text);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Only what ends up in the item's own file is part of the key, so reordering items or
+// editing another item's caption keeps it valid. Clip ids are left out for the same reason.
+export async function getItemCacheKey(
+  item: MediaItem,
+  source: SourceFingerprint,
+  settings: ItemRenderSettings
+): Promise<string> {
+  const hasCaption = item.showCaption && !!item.caption;
+  const hash = await sha256Hex(JSON.stringify({
+    filepath: item.filepath,
+    source,
+    type: item.type,
+    clips: item.type === 'video' ? (item.clips ?? []).map(clip => [clip.start, clip.end, getClipSpeed(clip)]) : [],
+    photoDuration: item.type === 'image' ? item.photoDuration ?? settings.defaultPhotoDuration : null,
+    motion: getMotionRects(item),
+    framing: getItemFraming(item, settings.defaultFraming),
+    sourceOrientation: item.sourceOrientation ?? null,
+    orientation: item.orientation ?? null,
+    caption: hasCaption ? item.caption : null,
+    captionSettings: hasCaption ? settings.captionSettings : null,
+    width: settings.width,
+    height: settings.height,
+    frameRate: settings.frameRate,
+    encoder: settings.encoder
+  }));
+  return hash.substring(0, 32);
+}
+
+export function getCachedItemPath(cacheDir: string, key: string): string {
+  return joinPath(cacheDir, `${CACHED_ITEM_PREFIX}${key}.mp4`);
+}
+
+// Removes everything in the cache folder except the given files: stale items, leftover
+// clip parts and batches, and partial files from an interrupted render
+export async function pruneRenderCache(cacheDir: string, keepPaths: string[]): Promise<void> {
+  if (!(await exists(cacheDir))) return;
+
+  const keep = new Set(keepPaths.map(path => path.toLowerCase()));
+  for (const entry of await readDir(cacheDir)) {
+    const path = joinPath(cacheDir, entry.name);
+    if (keep.has(path.toLowerCase())) continue;
+    try {
+      await remove(path, { recursive: entry.isDirectory });
+    } catch (error) {
+      console.error(`Could not remove ${path} from the render cache:`, error);
+    }
+  }
+}
+
+// Removes what an interrupted render left behind while keeping every finished entry
+export async function removeIncompleteFiles(cacheDir: string): Promise<void> {
+  if (!(await exists(cacheDir))) return;
+
+  for (const entry of await readDir(cacheDir)) {
+    if (entry.isFile && COMPLETE_ITEM_PATTERN.test(entry.name)) continue;
+    const path = joinPath(cacheDir, entry.name);
+    try {
+      await remove(path, { recursive: entry.isDirectory });
+    } catch (error) {
+      console.error(`Could not remove ${path} from the render cache:`, error);
+    }
+  }
+}
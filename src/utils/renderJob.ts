@@ -0,0 +1,77 @@
+// src/utils/renderJob.ts
+// Render and export jobs: groups of ffmpeg processes that can be cancelled together
+
+import { invoke } from '@tauri-apps/api/core';
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super('Render cancelled');
+    this.name = 'RenderCancelledError';
+  }
+}
+
+// A media item that ffmpeg couldn't process. The render stops at the first one; the
+// details are a short summary of ffmpeg's output, the full output is in the log file.
+export class RenderItemError extends Error {
+  itemId: string;
+  itemIndex: number;
+  filename: string;
+  details: string;
+  logPath: string | null;
+
+  constructor(item: { id: string; filename: string }, itemIndex: number, details: string, logPath: string | null) {
+    super(`Item ${itemIndex + 1} (${item.filename}) failed:\n${details}`);
+    this.name = 'RenderItemError';
+    this.itemId = item.id;
+    this.itemIndex = itemIndex;
+    this.filename = item.filename;
+    this.details = details;
+    this.logPath = logPath;
+  }
+}
+
+export interface RenderJob {
+  id: string;
+  isCancelled(): boolean;
+  // Kills the job's running ffmpeg processes; pending steps fail with RenderCancelledError
+  cancel(): Promise<void>;
+  throwIfCancelled(): void;
+  // Releases the job in the backend once nothing runs under it anymore
+  finish(): Promise<void>;
+}
+
+let jobCounter = 0;
+
+export function createRenderJob(kind: 'render' | 'export'): RenderJob {
+  const id = `${kind}_${Date.now()}_${++jobCounter}`;
+  let cancelled = false;
+
+  const job: RenderJob = {
+    id,
+    isCancelled: () => cancelled,
+    cancel: async () => {
+      if (cancelled) return;
+      cancelled = true;
+      await invoke('cancel_render_job', { jobId: id });
+    },
+    throwIfCancelled: () => {
+      if (cancelled) throw new RenderCancelledError();
+    },
+    finish: async () => {
+      try {
+        await invoke('finish_render_job', { jobId: id });
+      } catch (error) {
+        console.error('Error releasing render job:', error);
+      }
+    }
+  };
+  return job;
+}
+
+export function isRenderCancelled(error: unknown): boolean {
+  return error instanceof RenderCancelledError;
+}
+
+export function isRenderItemError(error: unknown): error is RenderItemError {
+  return error instanceof RenderItemError;
+}
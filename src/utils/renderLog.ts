@@ -0,0 +1,123 @@
+// src/utils/renderLog.ts
+// Per-run render logs: every ffmpeg invocation with its arguments, run time, exit status and,
+// when it fails, its full output, written next to the project so a failed render can be
+// diagnosed after the fact
+
+import { exists, mkdir, readDir, remove, writeTextFile } from '@tauri-apps/plugin-fs';
+import { joinPath } from './paths';
+import { isRenderCancelled } from './renderJob';
+
+// Older logs are removed when a new run starts
+const MAX_LOG_FILES = 20;
+
+// Lines of ffmpeg output kept in error summaries
+const SUMMARY_LINES = 6;
+
+export interface RenderLog {
+  path: string;
+  info(message: string): void;
+  // Records one ffmpeg run; `error` is null when it succeeded
+  command(label: string, args: string[], seconds: number, error: unknown): void;
+  // Waits until everything logged so far is on disk
+  flush(): Promise<void>;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+function formatTime(date: Date): string {
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function quoteArg(arg: string): string {
+  return /^[\w@%+=:,./\\-]+$/.test(arg) ? arg : `"${arg.replace(/"/g, '\\"')}"`;
+}
+
+// The backend reports failures as "FFmpeg failed with status: ...\nStderr: ..."
+function splitFfmpegError(error: unknown): { status: string | null; stderr: string } {
+  const text = error instanceof Error ? error.message : String(error);
+  const match = text.match(/^FFmpeg failed with status: (.*)\nStderr: ([\s\S]*)$/);
+  return match ? { status: match[1].trim(), stderr: match[2] } : { status: null, stderr: text };
+}
+
+// The last lines of ffmpeg's output that say what went wrong, without the version banner,
+// build configuration and stream listings that make up most of its stderr
+export function summarizeFfmpegError(error: unknown): string {
+  const { status, stderr } = splitFfmpegError(error);
+  const lines = stderr
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line =>
+      line.length > 0 &&
+      !/^(ffmpeg version|built with|configuration:|lib\w+\s+\d|Input #|Output #|Stream #|Stream mapping|Duration:|Metadata:|Press \[q\]|frame=|size=|\w+\s+:)/.test(line)
+    );
+
+  const summary = lines.slice(-SUMMARY_LINES).join('\n');
+  if (!summary) return status ? `ffmpeg exited with ${status}` : 'ffmpeg failed without output';
+  return status ? `${summary}\n(ffmpeg exited with ${status})` : summary;
+}
+
+async function pruneOldLogs(logDir: string): Promise<void> {
+  const logs = (await readDir(logDir))
+    .filter(entry => entry.isFile && entry.name.endsWith('.log'))
+    .map(entry => entry.name)
+    .sort();
+
+  for (const name of logs.slice(0, Math.max(0, logs.length - (MAX_LOG_FILES - 1)))) {
+    try {
+      await remove(joinPath(logDir, name));
+    } catch (error) {
+      console.error(`Could not remove old render log ${name}:`, error);
+    }
+  }
+}
+
+// Starts a new log file in logDir. Writing is best effort: a log that can't be written
+// never fails the render it describes.
+export async function createRenderLog(logDir: string, title: string): Promise<RenderLog> {
+  const started = new Date();
+  const stamp = `${started.getFullYear()}-${pad(started.getMonth() + 1)}-${pad(started.getDate())}` +
+    `_${pad(started.getHours())}-${pad(started.getMinutes())}-${pad(started.getSeconds())}`;
+  const path = joinPath(logDir, `render_${stamp}.log`);
+
+  try {
+    if (await exists(logDir)) {
+      await pruneOldLogs(logDir);
+    } else {
+      await mkdir(logDir, { recursive: true });
+    }
+  } catch (error) {
+    console.error('Could not prepare the render log folder:', error);
+  }
+
+  // Writes are chained so entries from parallel jobs never interleave
+  let pending = Promise.resolve();
+  const write = (text: string) => {
+    pending = pending
+      .then(() => writeTextFile(path, text, { append: true }))
+      .catch(error => console.error('Could not write the render log:', error));
+  };
+
+  write(`${title}\nStarted ${started.toLocaleString()}\n\n`);
+
+  return {
+    path,
+    info: message => write(`[${formatTime(new Date())}] ${message}\n`),
+    command: (label, args, seconds, error) => {
+      const result = error === null ? `OK ${label} (${seconds.toFixed(1)}s)` :
+        isRenderCancelled(error) ? `CANCELLED ${label} after ${seconds.toFixed(1)}s` :
+        `FAILED ${label} after ${seconds.toFixed(1)}s`;
+      const lines = [
+        `[${formatTime(new Date())}] ${result}`,
+        `  ffmpeg ${args.map(quoteArg).join(' ')}`
+      ];
+      // The complete output goes in the log; only the UI gets the summary
+      if (error !== null && !isRenderCancelled(error)) {
+        const { status, stderr } = splitFfmpegError(error);
+        if (status) lines.push(`  exited with ${status}`);
+        lines.push(...stderr.trimEnd().split(/\r?\n/).map(line => `  | ${line}`));
+      }
+      write(lines.join('\n') + '\n');
+    },
+    flush: () => pending
+  };
+}
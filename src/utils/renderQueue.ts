@@ -0,0 +1,206 @@
+// src/utils/renderQueue.ts
+// Queued exports of saved projects, run one after another and kept in the app settings
+// store so the queue survives a restart
+
+import { load } from '@tauri-apps/plugin-store';
+import { exists, remove } from '@tauri-apps/plugin-fs';
+import { getSequenceOutputPath, loadProjectFile } from './projectFile';
+import {
+  collectRenderInputs,
+  createSnapshot,
+  generateAudioHash,
+  generateRenderHash,
+  readProjectSnapshot,
+  writeProjectSnapshot,
+  ProjectSnapshot
+} from './projectHash';
+import { getTimelineDuration } from './timeline';
+import { mergeVideoWithAudio } from './exportVideo';
+import { ExportSettings, describeExportSettings, fitExportSettings, getOutputExtension } from './exportProfiles';
+import { formatFrameRate, getDominantFrameRate } from './frameRate';
+import { RenderProgress } from './ffmpegProgress';
+import { RenderJob } from './renderJob';
+import { stem } from './paths';
+
+const RENDER_QUEUE_KEY = 'renderQueue';
+
+// Older lines are dropped so a long-running queue doesn't grow the settings file forever
+const MAX_LOG_LINES = 200;
+
+export type QueueJobStatus = 'queued' | 'paused' | 'running' | 'done' | 'failed';
+
+export interface QueueJob {
+  id: string;
+  projectPath: string;
+  sequenceId: string;
+  // Names at the time the job was added, for display
+  projectName: string;
+  sequenceName: string;
+  outputFormat: string;
+  exportSettings: ExportSettings;
+  status: QueueJobStatus;
+  addedAt: string;
+  outputPath?: string;
+  error?: string;
+  log: string[];
+}
+
+export function createQueueJob(
+  projectPath: string,
+  sequence: { id: string; name: string },
+  outputFormat: string,
+  exportSettings: ExportSettings
+): QueueJob {
+  return {
+    id: `queue_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    projectPath,
+    sequenceId: sequence.id,
+    projectName: stem(projectPath),
+    sequenceName: sequence.name,
+    outputFormat,
+    exportSettings: fitExportSettings(outputFormat, exportSettings),
+    status: 'queued',
+    addedAt: new Date().toISOString(),
+    log: []
+  };
+}
+
+export function appendLog(job: QueueJob, message: string): QueueJob {
+  const line = `[${new Date().toLocaleTimeString()}] ${message}`;
+  return { ...job, log: [...job.log, line].slice(-MAX_LOG_LINES) };
+}
+
+export async function loadRenderQueue(): Promise<QueueJob[]> {
+  const store = await load('settings.json', { autoSave: false, defaults: {} });
+  const stored = await store.get<QueueJob[]>(RENDER_QUEUE_KEY);
+  if (!Array.isArray(stored)) return [];
+
+  // A job that was running when the app closed starts over; its finished items are still cached
+  return stored
+    .filter(job => job && typeof job.projectPath === 'string')
+    .map(job => job.status === 'running'
+      ? appendLog({ ...job, status: 'queued' }, 'Interrupted when the app closed, queued again')
+      : { ...job, log: Array.isArray(job.log) ? job.log : [] });
+}
+
+export async function saveRenderQueue(jobs: QueueJob[]): Promise<void> {
+  const store = await load('settings.json', { autoSave: false, defaults: {} });
+  await store.set(RENDER_QUEUE_KEY, jobs);
+  await store.save();
+}
+
+interface RunQueueJobOptions {
+  renderJob: RenderJob;
+  maxParallelJobs: number;
+  onProgress: (phase: string, progress: RenderProgress) => void;
+  log: (message: string) => void;
+}
+
+// Combines the job's sequence from the saved project file (reusing the combined video when
+// it is still current) and exports it. Returns the exported file's path.
+export async function runQueueJob(job: QueueJob, options: RunQueueJobOptions): Promise<string> {
+  const { renderJob, maxParallelJobs, onProgress, log } = options;
+
+  log(`Loading ${job.projectPath}`);
+  const data = await loadProjectFile(job.projectPath);
+  const sequence = data.sequences.find(entry => entry.id === job.sequenceId);
+  if (!sequence) {
+    throw new Error(`Sequence "${job.sequenceName}" no longer exists in the project`);
+  }
+  if (sequence.mediaItems.length === 0) {
+    throw new Error(`Sequence "${sequence.name}" has no media`);
+  }
+
+  const outputPath = (suffix: string) => getSequenceOutputPath(job.projectPath, sequence, suffix);
+  const snapshotPath = outputPath('_snapshot.json');
+  const combinedPath = outputPath('_combined.mp4');
+  const previous = await readProjectSnapshot(snapshotPath);
+
+  // Same choices the export dialog would suggest for the sequence
+  const firstVideo = sequence.mediaItems.find(item => item.type === 'video');
+  const resolution = sequence.targetResolution ??
+    previous?.inputs?.targetResolution ??
+    firstVideo?.resolution ??
+    '2704x1520';
+  const frameRate = sequence.targetFrameRate ?? getDominantFrameRate(sequence.mediaItems);
+
+  const inputs = await collectRenderInputs(
+    {
+      mediaItems: sequence.mediaItems,
+      captionSettings: data.captionSettings,
+      aspectRatio: sequence.aspectRatio,
+      defaultPhotoDuration: data.defaultPhotoDuration,
+      defaultTransition: data.defaultTransition,
+      defaultFraming: data.defaultFraming
+    },
+    resolution,
+    frameRate
+  );
+  const renderHash = await generateRenderHash(inputs);
+
+  let snapshot: ProjectSnapshot;
+  if (previous?.projectHash === renderHash && previous.combinedVideoPath === combinedPath) {
+    log('Combined video is up to date, reusing it');
+    snapshot = previous;
+  } else {
+    log(`Combining ${sequence.mediaItems.length} items at ${resolution} @ ${formatFrameRate(frameRate)}`);
+    // Loaded on demand like in App, so ffmpeg.ts stays out of the main bundle
+    const { combineVideo } = await import('./ffmpeg');
+    await combineVideo({
+      mediaItems: sequence.mediaItems,
+      outputPath: combinedPath,
+      aspectRatio: sequence.aspectRatio,
+      defaultPhotoDuration: data.defaultPhotoDuration,
+      captionSettings: data.captionSettings,
+      targetResolution: resolution,
+      frameRate,
+      defaultTransition: data.defaultTransition,
+      defaultFraming: data.defaultFraming,
+      maxParallelJobs,
+      renderJob,
+      onProgress: progress => onProgress('Combining', progress)
+    });
+    snapshot = createSnapshot(
+      renderHash,
+      inputs,
+      combinedPath,
+      sequence.mediaItems.length,
+      getTimelineDuration(sequence.mediaItems, data.defaultPhotoDuration, data.defaultTransition)
+    );
+    await writeProjectSnapshot(snapshotPath, snapshot);
+    log('Combined video ready');
+  }
+
+  const exportSettings = fitExportSettings(job.outputFormat, job.exportSettings);
+  const finalPath = outputPath(`_final.${getOutputExtension(job.outputFormat)}`);
+  log(`Exporting ${describeExportSettings(job.outputFormat, exportSettings)} to ${finalPath}`);
+
+  try {
+    await mergeVideoWithAudio(
+      combinedPath,
+      sequence.audioTracks,
+      finalPath,
+      job.outputFormat,
+      exportSettings,
+      sequence.videoDuckingPercent,
+      snapshot.totalDuration,
+      progress => onProgress('Exporting', progress),
+      renderJob
+    );
+  } catch (error) {
+    // Don't leave a half-written export behind
+    if (renderJob.isCancelled() && await exists(finalPath)) {
+      await remove(finalPath);
+    }
+    throw error;
+  }
+
+  await writeProjectSnapshot(snapshotPath, {
+    ...snapshot,
+    finalVideoPath: finalPath,
+    audioHash: generateAudioHash(sequence.audioTracks, sequence.videoDuckingPercent),
+    exportSettings
+  });
+  log(`Exported ${finalPath}`);
+  return finalPath;
+}
@@ -0,0 +1,28 @@
+// src/utils/renderSettings.ts
+// Machine-specific render preferences, stored in the app settings store rather than the project
+
+import { load } from '@tauri-apps/plugin-store';
+
+const PARALLEL_JOBS_KEY = 'renderParallelJobs';
+
+export const MAX_PARALLEL_JOBS = Math.max(1, navigator.hardwareConcurrency || 1);
+
+// Each ffmpeg encode is itself multi-threaded, so a few jobs are enough to keep the CPU busy
+export const DEFAULT_PARALLEL_JOBS = Math.max(1, Math.min(4, Math.floor(MAX_PARALLEL_JOBS / 4)));
+
+export function clampParallelJobs(value: number): number {
+  if (!Number.isFinite(value)) return DEFAULT_PARALLEL_JOBS;
+  return Math.max(1, Math.min(MAX_PARALLEL_JOBS, Math.round(value)));
+}
+
+export async function loadParallelJobs(): Promise<number> {
+  const store = await load('settings.json', { autoSave: false, defaults: {} });
+  const stored = await store.get<number>(PARALLEL_JOBS_KEY);
+  return typeof stored === 'number' ? clampParallelJobs(stored) : DEFAULT_PARALLEL_JOBS;
+}
+
+export async function saveParallelJobs(value: number): Promise<void> {
+  const store = await load('settings.json', { autoSave: false, defaults: {} });
+  await store.set(PARALLEL_JOBS_KEY, clampParallelJobs(value));
+  await store.save();
+}
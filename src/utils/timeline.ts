@@ -0,0 +1,113 @@
+// src/utils/timeline.ts
+// Where items sit in the combined video. Transitions overlap neighbouring items, so the
+// video is shorter than the sum of its items by the length of every transition.
+
+import { ClipRange, MediaItem, Transition, TransitionType } from '../types';
+
+export const TRANSITION_TYPES: { value: TransitionType; label: string; xfade: string | null }[] = [
+  { value: 'none', label: 'Cut', xfade: null },
+  { value: 'crossfade', label: 'Crossfade', xfade: 'fade' },
+  { value: 'dip-black', label: 'Dip to black', xfade: 'fadeblack' },
+  { value: 'dip-white', label: 'Dip to white', xfade: 'fadewhite' },
+  { value: 'wipe', label: 'Wipe', xfade: 'wipeleft' }
+];
+
+export const DEFAULT_TRANSITION: Transition = { type: 'none', duration: 1 };
+
+export const MIN_TRANSITION_DURATION = 0.1;
+export const MAX_TRANSITION_DURATION = 5;
+
+export function getTransitionLabel(type: TransitionType): string {
+  return TRANSITION_TYPES.find(entry => entry.value === type)?.label ?? type;
+}
+
+// Name of the ffmpeg xfade transition, null for a hard cut
+export function getXfadeName(type: TransitionType): string | null {
+  return TRANSITION_TYPES.find(entry => entry.value === type)?.xfade ?? null;
+}
+
+// Speeds offered for clips; below 1 is slow motion, above 1 a timelapse
+export const CLIP_SPEEDS = [0.25, 0.5, 1, 2, 4, 8, 16];
+
+export const MIN_CLIP_SPEED = 0.25;
+export const MAX_CLIP_SPEED = 16;
+
+// A clip's sound is kept, time-stretched, between these speeds and muted outside them,
+// where it would only be a drone or a chirp
+export const MIN_AUDIBLE_SPEED = 0.5;
+export const MAX_AUDIBLE_SPEED = 4;
+
+export function getClipSpeed(clip: ClipRange): number {
+  return clip.speed ?? 1;
+}
+
+export function isClipAudible(clip: ClipRange): boolean {
+  const speed = getClipSpeed(clip);
+  return speed >= MIN_AUDIBLE_SPEED && speed <= MAX_AUDIBLE_SPEED;
+}
+
+export function formatSpeed(speed: number): string {
+  return `${speed}×`;
+}
+
+// Seconds a clip lasts in the video, after its speed change
+export function getClipDuration(clip: ClipRange): number {
+  return (clip.end - clip.start) / getClipSpeed(clip);
+}
+
+// Seconds of video an item contributes before any overlap with its neighbours
+export function getItemDuration(item: MediaItem, defaultPhotoDuration: number): number {
+  if (item.type === 'image') return item.photoDuration ?? defaultPhotoDuration;
+  if (item.clips && item.clips.length > 0) {
+    return item.clips.reduce((sum, clip) => sum + getClipDuration(clip), 0);
+  }
+  return item.duration ?? 0;
+}
+
+// The transition between each item and the next (one fewer than there are items), null for
+// cuts. A transition never takes more than half of either item, so consecutive transitions
+// can't overlap each other.
+export function getBoundaryTransitions(
+  mediaItems: MediaItem[],
+  defaultPhotoDuration: number,
+  defaultTransition: Transition
+): (Transition | null)[] {
+  return mediaItems.slice(0, -1).map((item, i) => {
+    const transition = item.transition ?? defaultTransition;
+    if (transition.type === 'none') return null;
+
+    const duration = Math.min(
+      transition.duration,
+      getItemDuration(item, defaultPhotoDuration) / 2,
+      getItemDuration(mediaItems[i + 1], defaultPhotoDuration) / 2
+    );
+    return duration >= MIN_TRANSITION_DURATION ? { type: transition.type, duration } : null;
+  });
+}
+
+// When each item starts in the combined video; an item starts as the transition into it begins
+export function getItemStartTimes(
+  mediaItems: MediaItem[],
+  defaultPhotoDuration: number,
+  defaultTransition: Transition
+): number[] {
+  const transitions = getBoundaryTransitions(mediaItems, defaultPhotoDuration, defaultTransition);
+  const starts: number[] = [];
+  let time = 0;
+  mediaItems.forEach((item, i) => {
+    starts.push(time);
+    time += getItemDuration(item, defaultPhotoDuration) - (transitions[i]?.duration ?? 0);
+  });
+  return starts;
+}
+
+// Length of the combined video for a sequence's items
+export function getTimelineDuration(
+  mediaItems: MediaItem[],
+  defaultPhotoDuration: number,
+  defaultTransition: Transition
+): number {
+  const transitions = getBoundaryTransitions(mediaItems, defaultPhotoDuration, defaultTransition);
+  const itemsDuration = mediaItems.reduce((sum, item) => sum + getItemDuration(item, defaultPhotoDuration), 0);
+  return itemsDuration - transitions.reduce((sum, transition) => sum + (transition?.duration ?? 0), 0);
+}